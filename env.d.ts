@@ -3,12 +3,16 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/server");
-		durableNamespaces: "Chat";
+		durableNamespaces: "Chat" | "ArtistIngestion" | "ArtistCatalog" | "CsvImport";
 	}
 	interface Env {
 		OPENAI_API_KEY: string;
 		APP_PASSCODE?: string;
+		ADMIN_TOKEN?: string;
 		Chat: DurableObjectNamespace<import("./src/server").Chat>;
+		ArtistIngestion: DurableObjectNamespace<import("./src/server").ArtistIngestion>;
+		ArtistCatalog: DurableObjectNamespace<import("./src/server").ArtistCatalog>;
+		CsvImport: DurableObjectNamespace<import("./src/server").CsvImport>;
 		AI: Ai;
 		ARTIST_EMBEDDINGS: VectorizeIndex;
 		ARTIST_DOCUMENTS: R2Bucket;
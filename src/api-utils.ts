@@ -6,6 +6,18 @@ function getPasscode(): string | null {
   return sessionStorage.getItem("app_passcode");
 }
 
+export function getAdminToken(): string | null {
+  return sessionStorage.getItem("admin_token");
+}
+
+export function setAdminToken(token: string): void {
+  if (token) {
+    sessionStorage.setItem("admin_token", token);
+  } else {
+    sessionStorage.removeItem("admin_token");
+  }
+}
+
 export function getApiHeaders(): HeadersInit {
   const passcode = getPasscode();
   const headers: HeadersInit = {
@@ -37,3 +49,19 @@ export async function apiFetch(url: string, options: RequestInit = {}): Promise<
   });
 }
 
+/**
+ * apiFetch for /api/admin/ routes, which also need the admin token
+ */
+export async function adminFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const token = getAdminToken();
+  const headers = new Headers(options.headers);
+  
+  if (token) {
+    headers.set("X-Admin-Token", token);
+  }
+  
+  return apiFetch(url, {
+    ...options,
+    headers,
+  });
+}
@@ -15,6 +15,11 @@ import { Textarea } from "@/components/textarea/Textarea";
 import { MemoizedMarkdown } from "@/components/memoized-markdown";
 import { ToolInvocationCard } from "@/components/tool-invocation-card/ToolInvocationCard";
 import { ArtistEquivalence } from "@/components/artist-equivalence/ArtistEquivalence";
+import { ArtistBlend } from "@/components/artist-blend/ArtistBlend";
+import { ArtistBridge } from "@/components/artist-bridge/ArtistBridge";
+import { LyricsMatch } from "@/components/lyrics-match/LyricsMatch";
+import { SimilarArtists } from "@/components/similar-artists/SimilarArtists";
+import { GenreReport } from "@/components/genre-report/GenreReport";
 import { formatGenreDisplay } from "@/lib/utils";
 
 // Icon imports
@@ -34,10 +39,13 @@ const toolsRequiringConfirmation: (keyof typeof tools)[] = [
   "getWeatherInformation"
 ];
 
-type Page = "discovery" | "chat";
+type Page = "discovery" | "chat" | "admin";
 
 export default function App() {
-  const [currentPage, setCurrentPage] = useState<Page>("discovery");
+  // The admin page has no link; open it at /#admin
+  const [currentPage, setCurrentPage] = useState<Page>(() =>
+    window.location.hash === "#admin" ? "admin" : "discovery"
+  );
   const [chatPreselectedArtists, setChatPreselectedArtists] = useState<{
     sourceArtist: string;
     sourceGenre: string;
@@ -45,6 +53,17 @@ export default function App() {
     targetGenre: string;
   } | null>(null);
 
+  if (currentPage === "admin") {
+    return (
+      <AdminPage
+        onBack={() => {
+          history.replaceState(null, "", window.location.pathname);
+          setCurrentPage("discovery");
+        }}
+      />
+    );
+  }
+
   if (currentPage === "discovery") {
     return (
       <DiscoveryPage
@@ -72,10 +91,52 @@ function DiscoveryPage({
 }: {
   onGenerateSong: (sourceArtist: string, sourceGenre: string, targetArtist: string, targetGenre: string) => void;
 }) {
+  const [searchTab, setSearchTab] = useState<"equivalent" | "similar">("equivalent");
+
+  return (
+    <div className="min-h-screen w-full p-4 flex justify-center items-start bg-fixed overflow-y-auto">
+      <div className="w-full mx-auto max-w-6xl py-4 space-y-6">
+        <div className="space-y-4">
+          <div className="flex gap-2" role="tablist">
+            <Button
+              role="tab"
+              aria-selected={searchTab === "equivalent"}
+              variant={searchTab === "equivalent" ? "primary" : "ghost"}
+              onClick={() => setSearchTab("equivalent")}
+            >
+              Across Genres
+            </Button>
+            <Button
+              role="tab"
+              aria-selected={searchTab === "similar"}
+              variant={searchTab === "similar" ? "primary" : "ghost"}
+              onClick={() => setSearchTab("similar")}
+            >
+              More Like This
+            </Button>
+          </div>
+          {searchTab === "equivalent" ? (
+            <ArtistEquivalence onGenerateSong={onGenerateSong} />
+          ) : (
+            <SimilarArtists />
+          )}
+        </div>
+        <ArtistBlend />
+        <ArtistBridge />
+        <LyricsMatch />
+      </div>
+    </div>
+  );
+}
+
+function AdminPage({ onBack }: { onBack: () => void }) {
   return (
     <div className="min-h-screen w-full p-4 flex justify-center items-start bg-fixed overflow-y-auto">
-      <div className="w-full mx-auto max-w-6xl py-4">
-        <ArtistEquivalence onGenerateSong={onGenerateSong} />
+      <div className="w-full mx-auto max-w-6xl py-4 space-y-6">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          ← Back
+        </Button>
+        <GenreReport />
       </div>
     </div>
   );
@@ -0,0 +1,196 @@
+import { getCatalogStub, type ResolvedArtist } from "./catalog";
+import {
+  deleteArtistDocument,
+  hasManifest,
+  putArtistDocuments
+} from "./document-store";
+import { embedDocument } from "./embeddings";
+import { deleteArtistFeatures } from "./feature-cache";
+import { embedSongChunks, songChunkIds } from "./song-chunks";
+import { artistVectorId, legacyArtistVectorId } from "./vector-utils";
+
+export interface ArtistInput {
+  genre?: string;
+  artist?: string;
+  document?: string;
+}
+
+export interface ArtistChange {
+  action: "created" | "updated" | "deleted";
+  genre: string;
+  artist: string;
+  vectorId: string;
+}
+
+function ambiguousMessage(
+  artist: string,
+  candidates: ResolvedArtist[]
+): string {
+  const names = candidates.map((c) => c.name).join(", ");
+  return `${artist} matches several catalogued artists (${names}); use the exact name`;
+}
+
+/**
+ * Checks an artist create/update request against the catalog. Returns an
+ * error message, or the canonical genre and the name to store the artist
+ * under (the existing spelling when the artist is already catalogued).
+ */
+export async function validateArtistInput(
+  env: Env,
+  input: ArtistInput
+): Promise<
+  | { error: string }
+  | { genre: string; artist: string; document: string; exists: boolean }
+> {
+  const artist = input.artist?.trim();
+  const document = input.document?.trim();
+  if (!input.genre?.trim()) {
+    return { error: "genre is required" };
+  }
+  if (!artist) {
+    return { error: "artist is required" };
+  }
+  if (!document) {
+    return { error: "document must not be empty" };
+  }
+
+  const catalog = getCatalogStub(env);
+  const genre = await catalog.resolveGenre(input.genre);
+  if (!genre) {
+    return { error: `Unknown genre: ${input.genre}` };
+  }
+
+  const [existing] = await catalog.resolveArtists([{ name: artist, genre }]);
+  if (existing.status === "ambiguous") {
+    return { error: ambiguousMessage(artist, existing.candidates) };
+  }
+  return {
+    genre,
+    artist: existing.status === "resolved" ? existing.match.name : artist,
+    document,
+    exists: existing.status === "resolved"
+  };
+}
+
+/**
+ * Creates or updates one artist: re-embeds the document and its song
+ * chunks, upserts the vectors, writes the document and catalog row, and
+ * flags the genre centroid for recomputation. Returns a conflict before
+ * touching anything when the documents haven't been migrated to the
+ * per-artist store yet.
+ */
+export async function saveArtist(
+  env: Env,
+  artist: { genre: string; artist: string; document: string; exists: boolean }
+): Promise<ArtistChange | { conflict: string }> {
+  if (!(await hasManifest(env.ARTIST_DOCUMENTS))) {
+    return {
+      conflict:
+        "Artist documents haven't been migrated yet; run POST /api/admin/documents/migrate first"
+    };
+  }
+
+  const result = await embedDocument(env.AI, artist.document);
+  if (!result.embedding) {
+    throw new Error(
+      `Failed to embed document for ${artist.artist} after ${result.attempts} attempts: ${result.reason}`
+    );
+  }
+
+  const vectorId = await artistVectorId(artist.genre, artist.artist);
+  await env.ARTIST_EMBEDDINGS.upsert([
+    {
+      id: vectorId,
+      values: result.embedding,
+      metadata: { type: "artist", genre: artist.genre, artist: artist.artist }
+    }
+  ]);
+  // An artist that was never migrated would otherwise keep a second vector
+  await env.ARTIST_EMBEDDINGS.deleteByIds([
+    legacyArtistVectorId(artist.genre, artist.artist)
+  ]);
+  const chunks = await embedSongChunks(
+    env.AI,
+    artist.genre,
+    artist.artist,
+    artist.document
+  );
+  if (chunks.vectors.length > 0) {
+    await env.ARTIST_EMBEDDINGS.upsert(chunks.vectors);
+  }
+  await env.ARTIST_EMBEDDINGS.deleteByIds(chunks.staleIds);
+  await putArtistDocuments(env.ARTIST_DOCUMENTS, [
+    { genre: artist.genre, artist: artist.artist, document: artist.document }
+  ]);
+
+  const catalog = getCatalogStub(env);
+  await catalog.upsertArtists([
+    { name: artist.artist, genre: artist.genre, vectorId }
+  ]);
+  await catalog.markGenreDirty(artist.genre);
+  await catalog.recordAudit(
+    artist.exists ? "artist.update" : "artist.create",
+    artist.genre,
+    artist.artist,
+    {
+      vectorId,
+      documentLength: artist.document.length,
+      songChunks: chunks.vectors.length,
+      failedSongChunks: chunks.failures
+    }
+  );
+
+  return {
+    action: artist.exists ? "updated" : "created",
+    genre: artist.genre,
+    artist: artist.artist,
+    vectorId
+  };
+}
+
+/**
+ * Removes an artist's vectors (hashed and legacy ids, song chunks),
+ * document and catalog row. Returns null when the artist isn't catalogued,
+ * and a conflict when the name matches several catalogued spellings.
+ */
+export async function deleteArtist(
+  env: Env,
+  genre: string,
+  artist: string
+): Promise<ArtistChange | { conflict: string } | null> {
+  const catalog = getCatalogStub(env);
+  const [resolved] = await catalog.resolveArtists([{ name: artist, genre }]);
+  if (resolved.status !== "resolved") {
+    return resolved.status === "ambiguous"
+      ? { conflict: ambiguousMessage(artist, resolved.candidates) }
+      : null;
+  }
+  const existing = resolved.match;
+
+  const vectorId =
+    existing.vectorId ?? (await artistVectorId(existing.genre, existing.name));
+  await env.ARTIST_EMBEDDINGS.deleteByIds([
+    vectorId,
+    legacyArtistVectorId(existing.genre, existing.name),
+    ...(await songChunkIds(existing.genre, existing.name))
+  ]);
+  await deleteArtistDocument(
+    env.ARTIST_DOCUMENTS,
+    existing.genre,
+    existing.name
+  );
+  await deleteArtistFeatures(env, existing.genre, existing.name);
+
+  await catalog.deleteArtist(existing.genre, existing.name);
+  await catalog.markGenreDirty(existing.genre);
+  await catalog.recordAudit("artist.delete", existing.genre, existing.name, {
+    vectorId
+  });
+
+  return {
+    action: "deleted",
+    genre: existing.genre,
+    artist: existing.name,
+    vectorId
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Name normalization shared by the Worker and the frontend. Two names that
+ * normalize to the same string are treated as the same artist or genre.
+ *
+ *   normalizeName("Beyoncé")  === "beyonce"
+ *   normalizeName("JAY-Z")    === "jay z"
+ *   normalizeName("  Jay  Z") === "jay z"
+ *   normalizeName("R&B")      === "rb"
+ */
+export function normalizeName(value: string): string {
+  if (!value) return "";
+
+  return (
+    value
+      .normalize("NFC")
+      // Fold diacritics: decompose, then drop the combining marks
+      .normalize("NFD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      // Apostrophes, periods and ampersands join ("Guns N' Roses", "B.o.B", "R&B")
+      .replace(/['’.&]/g, "")
+      // Any other punctuation separates words ("JAY-Z", "AC/DC")
+      .replace(/[^\p{L}\p{N}]+/gu, " ")
+      .trim()
+  );
+}
+
+export function namesMatch(a: string, b: string): boolean {
+  return normalizeName(a) === normalizeName(b);
+}
+
+/**
+ * Aliases every catalog starts with. These cover names that were mangled in
+ * the original dataset upload; anything else is added through the admin API.
+ */
+export const DEFAULT_ALIASES: Record<string, string> = {
+  Beyonc: "Beyoncé"
+};
+
+/**
+ * Common ways of naming the dataset's genres (keys are normalized). Used
+ * by the fuzzy resolver, since "hip hop" is nowhere near "rap" by spelling.
+ */
+export const GENRE_SYNONYMS: Record<string, string> = {
+  "hip hop": "rap",
+  hiphop: "rap",
+  "rap music": "rap",
+  "r and b": "rb",
+  rnb: "rb",
+  "rhythm and blues": "rb",
+  soul: "rb",
+  "pop music": "pop",
+  "rock and roll": "rock",
+  "rock n roll": "rock",
+  "country music": "country",
+  "country western": "country"
+};
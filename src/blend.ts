@@ -0,0 +1,171 @@
+import {
+  type ArtistResult,
+  artistVectorId,
+  cosineSimilarity,
+  getArtistVector,
+  getAverageGenreVector,
+  getVectorsByIds,
+  MAX_QUERY_TOP_K,
+  toNumberArray,
+  vectorArithmetic
+} from "./vector-utils";
+
+export interface BlendSource {
+  artist: string;
+  genre: string;
+  /** Relative weight; defaults to 1. Weights are normalized to sum to 1. */
+  weight?: number;
+}
+
+export interface BlendContribution {
+  artist: string;
+  genre: string;
+  /** Normalized weight the source was blended with */
+  weight: number;
+  /** Share of the result's similarity attributable to this source (sums to 1) */
+  share: number;
+}
+
+export interface BlendResult extends ArtistResult {
+  contributions: BlendContribution[];
+}
+
+export interface BlendOptions {
+  offset?: number;
+  minScore?: number;
+}
+
+/**
+ * Finds target-genre artists for a weighted blend of source artists, e.g.
+ * "Taylor Swift + Kendrick Lamar, in country". Each source is shifted into
+ * the target genre on its own (artist - its genre centroid + target
+ * centroid) and the shifted vectors are averaged by weight.
+ */
+export async function findBlendedArtists(
+  vectorize: VectorizeIndex,
+  sources: BlendSource[],
+  targetGenre: string,
+  topK: number = 3,
+  options: BlendOptions = {}
+): Promise<{ results: BlendResult[]; nextOffset: number | null }> {
+  if (sources.length < 2) {
+    throw new Error("A blend needs at least two source artists");
+  }
+  if (sources.some((s) => (s.weight ?? 1) < 0)) {
+    throw new Error("Blend weights must not be negative");
+  }
+  const totalWeight = sources.reduce((sum, s) => sum + (s.weight ?? 1), 0);
+  if (totalWeight <= 0) {
+    throw new Error("At least one blend weight must be positive");
+  }
+
+  const avgTargetVector = await getAverageGenreVector(vectorize, targetGenre);
+  if (!avgTargetVector) {
+    throw new Error(`Average vector not found for target genre ${targetGenre}`);
+  }
+
+  const shifted = await Promise.all(
+    sources.map(async (source) => {
+      const artistVector = await getArtistVector(
+        vectorize,
+        source.artist,
+        source.genre
+      );
+      if (!artistVector) {
+        throw new Error(
+          `Artist ${source.artist} not found in genre ${source.genre}`
+        );
+      }
+      const avgSourceVector = await getAverageGenreVector(
+        vectorize,
+        source.genre
+      );
+      if (!avgSourceVector) {
+        throw new Error(
+          `Average vector not found for source genre ${source.genre}`
+        );
+      }
+
+      return {
+        artist: source.artist,
+        genre: source.genre,
+        weight: (source.weight ?? 1) / totalWeight,
+        vector: vectorArithmetic(artistVector, avgSourceVector, avgTargetVector)
+      };
+    })
+  );
+
+  const blended = new Array(avgTargetVector.length).fill(0);
+  for (const source of shifted) {
+    for (let i = 0; i < blended.length; i++) {
+      blended[i] += source.weight * source.vector[i];
+    }
+  }
+
+  const offset = Math.max(options.offset ?? 0, 0);
+  const minScore = options.minScore ?? Number.NEGATIVE_INFINITY;
+  const pageEnd = offset + topK;
+  const sourceIds = new Set(
+    await Promise.all(sources.map((s) => artistVectorId(s.genre, s.artist)))
+  );
+
+  const queryResult = await vectorize.query(blended, {
+    // Sources in the target genre are dropped below, so leave room for them
+    topK: Math.min(pageEnd + 1 + sources.length, MAX_QUERY_TOP_K),
+    filter: { type: "artist", genre: targetGenre },
+    returnMetadata: "none",
+    returnValues: false
+  });
+  const matches = queryResult.matches.filter(
+    (match) => !sourceIds.has(match.id) && match.score >= minScore
+  );
+  console.log(
+    `Blend of ${sources.length} artists returned ${matches.length} matches in ${targetGenre}`
+  );
+
+  const page = matches.slice(offset, pageEnd);
+  const vectors = new Map(
+    (
+      await getVectorsByIds(
+        vectorize,
+        page.map((m) => m.id)
+      )
+    ).map((v) => [v.id, v])
+  );
+
+  const results: BlendResult[] = [];
+  for (const match of page) {
+    const vector = vectors.get(match.id);
+    const metadata = (vector?.metadata ?? {}) as {
+      genre?: string;
+      artist?: string;
+    };
+    if (!vector || !metadata.artist) {
+      continue;
+    }
+
+    const values = toNumberArray(vector.values);
+    const raw = shifted.map(
+      (source) =>
+        source.weight * Math.max(cosineSimilarity(source.vector, values), 0)
+    );
+    const rawTotal = raw.reduce((sum, value) => sum + value, 0);
+
+    results.push({
+      artist: metadata.artist,
+      genre: metadata.genre || targetGenre,
+      score: match.score,
+      contributions: shifted.map((source, i) => ({
+        artist: source.artist,
+        genre: source.genre,
+        weight: source.weight,
+        share: rawTotal > 0 ? raw[i] / rawTotal : 0
+      }))
+    });
+  }
+
+  return {
+    results,
+    nextOffset: matches.length > pageEnd ? pageEnd : null
+  };
+}
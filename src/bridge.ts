@@ -0,0 +1,152 @@
+import {
+  type ArtistResult,
+  artistVectorId,
+  getArtistVector,
+  getVectorsByIds,
+  legacyArtistVectorId,
+  MAX_QUERY_TOP_K,
+  normalizeVector
+} from "./vector-utils";
+
+export type BridgeMode = "linear" | "slerp";
+
+export interface BridgeEndpoint {
+  artist: string;
+  genre: string;
+}
+
+export interface BridgeStep extends ArtistResult {
+  /** Position along the path, 0 at the first artist and 1 at the second */
+  t: number;
+}
+
+export const MAX_BRIDGE_STEPS = 20;
+
+/**
+ * The point a fraction t of the way from a to b. slerp follows the arc
+ * between the normalized vectors, so intermediate points keep the same norm
+ * as the artist vectors instead of shrinking towards the origin.
+ */
+export function interpolate(
+  a: number[],
+  b: number[],
+  t: number,
+  mode: BridgeMode
+): number[] {
+  if (mode === "slerp") {
+    const na = normalizeVector(a);
+    const nb = normalizeVector(b);
+    const dot = Math.min(
+      Math.max(
+        na.reduce((sum, v, i) => sum + v * nb[i], 0),
+        -1
+      ),
+      1
+    );
+    const omega = Math.acos(dot);
+    // Nearly parallel vectors: the arc is a line
+    if (Math.sin(omega) > 1e-6) {
+      const wa = Math.sin((1 - t) * omega) / Math.sin(omega);
+      const wb = Math.sin(t * omega) / Math.sin(omega);
+      return na.map((v, i) => wa * v + wb * nb[i]);
+    }
+  }
+  return a.map((v, i) => (1 - t) * v + t * b[i]);
+}
+
+/**
+ * A "bridge playlist" from one artist to another, possibly across genres.
+ * Samples evenly spaced points between the two artist vectors and takes
+ * the nearest artist at each one that isn't already on the path. Steps
+ * whose nearby artists are all taken are dropped.
+ */
+export async function findArtistBridge(
+  vectorize: VectorizeIndex,
+  from: BridgeEndpoint,
+  to: BridgeEndpoint,
+  options: { steps?: number; mode?: BridgeMode } = {}
+): Promise<BridgeStep[]> {
+  const steps = Math.min(
+    Math.max(Math.floor(options.steps ?? 6), 1),
+    MAX_BRIDGE_STEPS
+  );
+  const mode = options.mode ?? "slerp";
+
+  const [fromVector, toVector] = await Promise.all([
+    getArtistVector(vectorize, from.artist, from.genre),
+    getArtistVector(vectorize, to.artist, to.genre)
+  ]);
+  if (!fromVector) {
+    throw new Error(`Artist ${from.artist} not found in genre ${from.genre}`);
+  }
+  if (!toVector) {
+    throw new Error(`Artist ${to.artist} not found in genre ${to.genre}`);
+  }
+
+  // Intermediate points only; the two artists are the ends of the path
+  const positions = Array.from(
+    { length: steps },
+    (_, i) => (i + 1) / (steps + 1)
+  );
+  // Enough candidates per point to skip every artist an earlier step took
+  const topK = Math.min(steps + 2, MAX_QUERY_TOP_K);
+  const candidates = await Promise.all(
+    positions.map(async (t) => {
+      const queryResult = await vectorize.query(
+        interpolate(fromVector, toVector, t, mode),
+        {
+          topK,
+          filter: { type: "artist" },
+          returnMetadata: "none",
+          returnValues: false
+        }
+      );
+      return queryResult.matches;
+    })
+  );
+
+  // Name every candidate up front so steps can skip ids without metadata
+  const metadata = new Map(
+    (
+      await getVectorsByIds(vectorize, [
+        ...new Set(candidates.flat().map((m) => m.id))
+      ])
+    ).map((v) => [
+      v.id,
+      (v.metadata ?? {}) as { genre?: string; artist?: string }
+    ])
+  );
+
+  const used = new Set([
+    await artistVectorId(from.genre, from.artist),
+    legacyArtistVectorId(from.genre, from.artist),
+    await artistVectorId(to.genre, to.artist),
+    legacyArtistVectorId(to.genre, to.artist)
+  ]);
+  const path: BridgeStep[] = [];
+  positions.forEach((t, i) => {
+    const match = candidates[i].find(
+      (m) => !used.has(m.id) && metadata.get(m.id)?.artist
+    );
+    if (!match) {
+      return;
+    }
+    used.add(match.id);
+    const meta = metadata.get(match.id) ?? {};
+    path.push({
+      artist: meta.artist ?? "",
+      genre: meta.genre ?? "",
+      score: match.score,
+      t
+    });
+  });
+  console.log(
+    `Bridge from ${from.artist} to ${to.artist}: ${path.length} of ${steps} steps`
+  );
+
+  return [
+    { artist: from.artist, genre: from.genre, score: 1, t: 0 },
+    ...path,
+    { artist: to.artist, genre: to.genre, score: 1, t: 1 }
+  ];
+}
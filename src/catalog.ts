@@ -0,0 +1,551 @@
+import { DurableObject } from "cloudflare:workers";
+import { DEFAULT_ALIASES, normalizeName } from "./artist-names";
+import type { Resolution } from "./resolver";
+
+export interface CatalogArtist {
+  name: string;
+  genre: string;
+  /** Vectorize id of the artist vector, once it has been ingested or migrated */
+  vectorId?: string | null;
+}
+
+/**
+ * A catalog row matched by name. `name` is the name the artist is stored
+ * under (use it for vector and document lookups); `displayName` is the
+ * preferred spelling from the alias registry.
+ */
+export interface ResolvedArtist {
+  name: string;
+  displayName: string;
+  genre: string;
+  vectorId: string | null;
+}
+
+export interface ArtistAlias {
+  alias: string;
+  name: string;
+  createdAt: string;
+}
+
+export type AuditAction = "artist.create" | "artist.update" | "artist.delete";
+
+export interface AuditEntry {
+  id: number;
+  action: AuditAction;
+  genre: string;
+  artist: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface GenreCount {
+  genre: string;
+  count: number;
+}
+
+export interface CatalogQuery {
+  /** Prefix matched against the normalized full name and each word in it */
+  q?: string;
+  genre?: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface CatalogPage {
+  artists: CatalogArtist[];
+  total: number;
+  nextOffset: number | null;
+}
+
+const MAX_PAGE_SIZE = 500;
+
+function toKey(value: string): string {
+  return value.normalize("NFC").trim().toLowerCase();
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/**
+ * Authoritative list of every artist that has been ingested, plus the alias
+ * registry used to resolve user- and LLM-supplied names. Rows are written by
+ * the ingestion pipeline as vectors are upserted, so the catalog always
+ * matches what is searchable in Vectorize.
+ */
+export class ArtistCatalog extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS artists (
+        genre_key TEXT NOT NULL,
+        name_key TEXT NOT NULL,
+        genre TEXT NOT NULL,
+        name TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (genre_key, name_key)
+      );
+      CREATE INDEX IF NOT EXISTS artists_by_name ON artists (name_key);
+      CREATE TABLE IF NOT EXISTS aliases (
+        alias_norm TEXT PRIMARY KEY,
+        alias TEXT NOT NULL,
+        name TEXT NOT NULL,
+        name_norm TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS aliases_by_name ON aliases (name_norm);
+      CREATE TABLE IF NOT EXISTS dirty_genres (
+        genre_norm TEXT PRIMARY KEY,
+        genre TEXT NOT NULL,
+        marked_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        action TEXT NOT NULL,
+        genre TEXT NOT NULL,
+        artist TEXT NOT NULL,
+        details TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `);
+    this.migrateSchema();
+    this.seedAliases();
+  }
+
+  private migrateSchema() {
+    const columns = this.ctx.storage.sql
+      .exec<{ name: string }>("PRAGMA table_info(artists)")
+      .toArray()
+      .map((c) => c.name);
+
+    if (!columns.includes("vector_id")) {
+      this.ctx.storage.sql.exec(
+        "ALTER TABLE artists ADD COLUMN vector_id TEXT"
+      );
+    }
+
+    if (!columns.includes("name_norm")) {
+      this.ctx.storage.sql.exec(`
+        ALTER TABLE artists ADD COLUMN name_norm TEXT NOT NULL DEFAULT '';
+        ALTER TABLE artists ADD COLUMN genre_norm TEXT NOT NULL DEFAULT '';
+      `);
+      const rows = this.ctx.storage.sql
+        .exec<{
+          genre_key: string;
+          name_key: string;
+          genre: string;
+          name: string;
+        }>("SELECT genre_key, name_key, genre, name FROM artists")
+        .toArray();
+      for (const row of rows) {
+        this.ctx.storage.sql.exec(
+          "UPDATE artists SET name_norm = ?, genre_norm = ? WHERE genre_key = ? AND name_key = ?",
+          normalizeName(row.name),
+          normalizeName(row.genre),
+          row.genre_key,
+          row.name_key
+        );
+      }
+    }
+
+    this.ctx.storage.sql.exec(`
+      CREATE INDEX IF NOT EXISTS artists_by_name_norm ON artists (name_norm);
+      CREATE INDEX IF NOT EXISTS artists_by_genre_norm ON artists (genre_norm);
+    `);
+  }
+
+  private seedAliases() {
+    const now = new Date().toISOString();
+    for (const [alias, name] of Object.entries(DEFAULT_ALIASES)) {
+      this.ctx.storage.sql.exec(
+        `INSERT OR IGNORE INTO aliases (alias_norm, alias, name, name_norm, created_at)
+         VALUES (?, ?, ?, ?, ?)`,
+        normalizeName(alias),
+        alias,
+        name,
+        normalizeName(name),
+        now
+      );
+    }
+  }
+
+  async upsertArtists(artists: CatalogArtist[]): Promise<number> {
+    const now = new Date().toISOString();
+    for (const { name, genre, vectorId } of artists) {
+      this.ctx.storage.sql.exec(
+        `INSERT INTO artists (genre_key, name_key, genre, name, name_norm, genre_norm, vector_id, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (genre_key, name_key)
+         DO UPDATE SET genre = excluded.genre, name = excluded.name,
+           name_norm = excluded.name_norm, genre_norm = excluded.genre_norm,
+           vector_id = COALESCE(excluded.vector_id, artists.vector_id),
+           updated_at = excluded.updated_at`,
+        toKey(genre),
+        toKey(name),
+        genre,
+        name,
+        normalizeName(name),
+        normalizeName(genre),
+        vectorId ?? null,
+        now
+      );
+    }
+    return artists.length;
+  }
+
+  /** Looks up the Vectorize id recorded for (genre, artist) */
+  async getVectorId(genre: string, name: string): Promise<string | null> {
+    const [resolved] = await this.resolveArtists([{ name, genre }]);
+    return resolved.status === "resolved" ? resolved.match.vectorId : null;
+  }
+
+  async clear(): Promise<void> {
+    this.ctx.storage.sql.exec("DELETE FROM artists");
+  }
+
+  async deleteArtist(genre: string, name: string): Promise<boolean> {
+    const cursor = this.ctx.storage.sql.exec(
+      "DELETE FROM artists WHERE genre_key = ? AND name_key = ?",
+      toKey(genre),
+      toKey(name)
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  /** Flags a genre whose centroid no longer matches its artists */
+  async markGenreDirty(genre: string): Promise<void> {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO dirty_genres (genre_norm, genre, marked_at) VALUES (?, ?, ?)
+       ON CONFLICT (genre_norm) DO UPDATE SET marked_at = excluded.marked_at`,
+      normalizeName(genre),
+      genre,
+      new Date().toISOString()
+    );
+  }
+
+  async listDirtyGenres(): Promise<string[]> {
+    return this.ctx.storage.sql
+      .exec<{ genre: string }>(
+        "SELECT genre FROM dirty_genres ORDER BY genre_norm"
+      )
+      .toArray()
+      .map((row) => row.genre);
+  }
+
+  /** Clears the flag for genres whose centroid was recomputed at or after `since` */
+  async clearDirtyGenres(genres: string[], since: string): Promise<void> {
+    for (const genre of genres) {
+      this.ctx.storage.sql.exec(
+        "DELETE FROM dirty_genres WHERE genre_norm = ? AND marked_at <= ?",
+        normalizeName(genre),
+        since
+      );
+    }
+  }
+
+  async recordAudit(
+    action: AuditAction,
+    genre: string,
+    artist: string,
+    details: Record<string, unknown> = {}
+  ): Promise<void> {
+    this.ctx.storage.sql.exec(
+      `INSERT INTO audit_log (action, genre, artist, details, created_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      action,
+      genre,
+      artist,
+      JSON.stringify(details),
+      new Date().toISOString()
+    );
+  }
+
+  /** Most recent audit entries first */
+  async listAudit(limit = 100): Promise<AuditEntry[]> {
+    return this.ctx.storage.sql
+      .exec<{
+        id: number;
+        action: string;
+        genre: string;
+        artist: string;
+        details: string;
+        created_at: string;
+      }>(
+        "SELECT id, action, genre, artist, details, created_at FROM audit_log ORDER BY id DESC LIMIT ?",
+        Math.min(Math.max(limit, 1), MAX_PAGE_SIZE)
+      )
+      .toArray()
+      .map((row) => ({
+        id: row.id,
+        action: row.action as AuditAction,
+        genre: row.genre,
+        artist: row.artist,
+        details: JSON.parse(row.details) as Record<string, unknown>,
+        createdAt: row.created_at
+      }));
+  }
+
+  /**
+   * Resolves names (and optional genres) to catalog rows. A name matches
+   * its stored spelling exactly first; otherwise it matches when it
+   * normalizes to a stored name, or is linked to one by an alias in either
+   * direction. Distinct stored names that normalize alike ("AC/DC" and
+   * "AC DC") come back as ambiguous rather than one being picked.
+   */
+  async resolveArtists(
+    queries: Array<{ name: string; genre?: string }>
+  ): Promise<Array<Resolution<ResolvedArtist>>> {
+    return queries.map(({ name, genre }) => {
+      const norms = this.expandAliases(normalizeName(name));
+      const placeholders = norms.map(() => "?").join(", ");
+      const genreFilter = genre ? "AND genre_norm = ?" : "";
+      const params = genre ? [...norms, normalizeName(genre)] : norms;
+
+      const rows = this.ctx.storage.sql
+        .exec<{
+          name: string;
+          genre: string;
+          name_key: string;
+          name_norm: string;
+          vector_id: string | null;
+        }>(
+          `SELECT name, genre, name_key, name_norm, vector_id FROM artists
+           WHERE name_norm IN (${placeholders}) ${genreFilter}
+           ORDER BY genre_key, name_key`,
+          ...params
+        )
+        .toArray();
+      const toResolved = (row: (typeof rows)[number]): ResolvedArtist => ({
+        name: row.name,
+        displayName: this.displayName(row.name),
+        genre: row.genre,
+        vectorId: row.vector_id
+      });
+
+      const exact = rows.find((r) => r.name_key === toKey(name));
+      if (exact) {
+        return { status: "resolved", match: toResolved(exact) };
+      }
+
+      // Prefer rows whose own name matches over ones reached through an alias
+      const own = rows.filter((r) => r.name_norm === norms[0]);
+      const matches = own.length > 0 ? own : rows;
+      if (matches.length === 0) {
+        return { status: "not_found", candidates: [] };
+      }
+      // The same name in several genres resolves to the first genre, as an
+      // exact match does; only different stored spellings are ambiguous
+      if (new Set(matches.map((r) => r.name_key)).size > 1) {
+        return { status: "ambiguous", candidates: matches.map(toResolved) };
+      }
+      return { status: "resolved", match: toResolved(matches[0]) };
+    });
+  }
+
+  async resolveGenre(genre: string): Promise<string | null> {
+    const row = this.ctx.storage.sql
+      .exec<{
+        genre: string;
+      }>(
+        "SELECT genre FROM artists WHERE genre_norm = ? LIMIT 1",
+        normalizeName(genre)
+      )
+      .toArray()[0];
+    return row?.genre ?? null;
+  }
+
+  async addAlias(alias: string, name: string): Promise<ArtistAlias> {
+    const aliasNorm = normalizeName(alias);
+    if (!aliasNorm) {
+      throw new Error("Alias must contain at least one letter or number");
+    }
+
+    const createdAt = new Date().toISOString();
+    this.ctx.storage.sql.exec(
+      `INSERT INTO aliases (alias_norm, alias, name, name_norm, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (alias_norm)
+       DO UPDATE SET alias = excluded.alias, name = excluded.name, name_norm = excluded.name_norm`,
+      aliasNorm,
+      alias,
+      name,
+      normalizeName(name),
+      createdAt
+    );
+    return { alias, name, createdAt };
+  }
+
+  async removeAlias(alias: string): Promise<boolean> {
+    const cursor = this.ctx.storage.sql.exec(
+      "DELETE FROM aliases WHERE alias_norm = ?",
+      normalizeName(alias)
+    );
+    return cursor.rowsWritten > 0;
+  }
+
+  async listAliases(): Promise<ArtistAlias[]> {
+    return this.ctx.storage.sql
+      .exec<{ alias: string; name: string; created_at: string }>(
+        "SELECT alias, name, created_at FROM aliases ORDER BY name_norm, alias_norm"
+      )
+      .toArray()
+      .map(({ alias, name, created_at }) => ({
+        alias,
+        name,
+        createdAt: created_at
+      }));
+  }
+
+  async listArtists(query: CatalogQuery = {}): Promise<CatalogPage> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (query.genre) {
+      conditions.push("genre_norm = ?");
+      params.push(normalizeName(query.genre));
+    }
+    const prefix = escapeLike(normalizeName(query.q ?? ""));
+    if (prefix) {
+      conditions.push(
+        "(name_norm LIKE ? ESCAPE '\\' OR name_norm LIKE ? ESCAPE '\\')"
+      );
+      params.push(`${prefix}%`, `% ${prefix}%`);
+    }
+
+    const where =
+      conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const limit = Math.min(Math.max(query.limit ?? 50, 0), MAX_PAGE_SIZE);
+    const offset = Math.max(query.offset ?? 0, 0);
+
+    const total = this.ctx.storage.sql
+      .exec<{
+        total: number;
+      }>(`SELECT COUNT(*) AS total FROM artists ${where}`, ...params)
+      .one().total;
+
+    const artists = this.ctx.storage.sql
+      .exec<{ name: string; genre: string }>(
+        `SELECT name, genre FROM artists ${where}
+         ORDER BY genre_key, name_key LIMIT ? OFFSET ?`,
+        ...params,
+        limit,
+        offset
+      )
+      .toArray()
+      .map(({ name, genre }) => ({ name: this.displayName(name), genre }));
+
+    const nextOffset =
+      offset + artists.length < total ? offset + artists.length : null;
+    return { artists, total, nextOffset };
+  }
+
+  async allArtists(): Promise<CatalogArtist[]> {
+    return this.ctx.storage.sql
+      .exec<{ name: string; genre: string; vector_id: string | null }>(
+        "SELECT name, genre, vector_id FROM artists ORDER BY genre_key, name_key"
+      )
+      .toArray()
+      .map(({ name, genre, vector_id }) => ({
+        name,
+        genre,
+        vectorId: vector_id
+      }));
+  }
+
+  async listGenres(): Promise<GenreCount[]> {
+    return this.ctx.storage.sql
+      .exec<{ genre: string; count: number }>(
+        `SELECT MIN(genre) AS genre, COUNT(*) AS count FROM artists
+         GROUP BY genre_key ORDER BY genre_key`
+      )
+      .toArray()
+      .map(({ genre, count }) => ({ genre, count }));
+  }
+
+  /** Every normalized name linked to `norm` by an alias, `norm` first */
+  private expandAliases(norm: string): string[] {
+    const linked = this.ctx.storage.sql
+      .exec<{ alias_norm: string; name_norm: string }>(
+        "SELECT alias_norm, name_norm FROM aliases WHERE alias_norm = ? OR name_norm = ?",
+        norm,
+        norm
+      )
+      .toArray()
+      .flatMap((row) => [row.alias_norm, row.name_norm]);
+    return Array.from(new Set([norm, ...linked]));
+  }
+
+  /** The preferred spelling for a stored name, if an alias points away from it */
+  private displayName(name: string): string {
+    const row = this.ctx.storage.sql
+      .exec<{
+        name: string;
+      }>("SELECT name FROM aliases WHERE alias_norm = ?", normalizeName(name))
+      .toArray()[0];
+    return row?.name ?? name;
+  }
+}
+
+export function getCatalogStub(env: Env) {
+  return env.ArtistCatalog.get(env.ArtistCatalog.idFromName("default"));
+}
+
+/**
+ * Resolves an artist (and genre) through the catalog and alias registry.
+ * Falls back to the names as given when the catalog has no match, so
+ * lookups still work for data that hasn't been catalogued. When the name
+ * matches several stored spellings equally, `found` is false and they are
+ * listed in `ambiguous`.
+ */
+export async function resolveArtistName(
+  env: Env,
+  artist: string,
+  genre?: string
+): Promise<{
+  artist: string;
+  genre: string;
+  displayName: string;
+  found: boolean;
+  ambiguous: ResolvedArtist[];
+}> {
+  const [resolved] = await getCatalogStub(env).resolveArtists([
+    { name: artist, genre }
+  ]);
+  if (resolved.status !== "resolved") {
+    return {
+      artist,
+      genre: genre ?? "",
+      displayName: artist,
+      found: false,
+      ambiguous: resolved.candidates
+    };
+  }
+  return {
+    artist: resolved.match.name,
+    genre: resolved.match.genre,
+    displayName: resolved.match.displayName,
+    found: true,
+    ambiguous: []
+  };
+}
+
+export async function resolveGenreName(
+  env: Env,
+  genre: string
+): Promise<string> {
+  return (await getCatalogStub(env).resolveGenre(genre)) ?? genre;
+}
+
+/** Preferred spellings for artists returned by a search, in the same order */
+export async function displayArtistNames(
+  env: Env,
+  artists: Array<{ artist: string; genre: string }>
+): Promise<string[]> {
+  const resolved = await getCatalogStub(env).resolveArtists(
+    artists.map(({ artist, genre }) => ({ name: artist, genre }))
+  );
+  return artists.map((a, i) => {
+    const r = resolved[i];
+    return r.status === "resolved" ? r.match.displayName : a.artist;
+  });
+}
@@ -0,0 +1,126 @@
+import { getCatalogStub } from "./catalog";
+import { embeddingProblem } from "./embeddings";
+import {
+  artistVectorId,
+  averageGenreVectorId,
+  cosineSimilarity,
+  getAverageGenreVector,
+  getVectorsByIds,
+  meanVector,
+  toNumberArray
+} from "./vector-utils";
+
+export interface CentroidChange {
+  genre: string;
+  artistCount: number;
+  /** 1 - cosine(previous, next); null when there was no previous centroid */
+  cosineDelta: number | null;
+  changed: boolean;
+}
+
+export interface CentroidReport {
+  genres: CentroidChange[];
+  skipped: Array<{ genre: string; reason: string }>;
+  recomputedAt: string;
+}
+
+export interface CentroidOptions {
+  /** Only recompute these genres (defaults to every genre in the dataset) */
+  genres?: string[];
+  /** Only recompute genres flagged by artist edits since their last recompute */
+  dirtyOnly?: boolean;
+  /** Deltas at or below this are reported as unchanged */
+  threshold?: number;
+}
+
+/**
+ * Rebuilds the avg_genre_* vectors that vectorArithmetic relies on from the
+ * artist vectors currently stored in Vectorize.
+ */
+export async function recomputeGenreCentroids(
+  env: Env,
+  options: CentroidOptions = {}
+): Promise<CentroidReport> {
+  const threshold = options.threshold ?? 1e-4;
+  const startedAt = new Date().toISOString();
+  const catalog = getCatalogStub(env);
+  const catalogArtists = await catalog.allArtists();
+
+  const artistsByGenre = new Map<string, string[]>();
+  for (const { genre, name: artist } of catalogArtists) {
+    const artists = artistsByGenre.get(genre) ?? [];
+    artists.push(artist);
+    artistsByGenre.set(genre, artists);
+  }
+
+  const requested = (
+    options.dirtyOnly ? await catalog.listDirtyGenres() : options.genres
+  )?.map((g) => g.toLowerCase().trim());
+  const genres = Array.from(artistsByGenre.keys())
+    .filter((genre) => !requested || requested.includes(genre.toLowerCase()))
+    .sort();
+
+  const report: CentroidReport = {
+    genres: [],
+    skipped: [],
+    recomputedAt: startedAt
+  };
+
+  const known = new Set(genres.map((g) => g.toLowerCase()));
+  for (const genre of requested ?? []) {
+    if (!known.has(genre)) {
+      report.skipped.push({ genre, reason: "no artists in catalog" });
+    }
+  }
+
+  for (const genre of genres) {
+    const ids = await Promise.all(
+      artistsByGenre.get(genre)!.map((artist) => artistVectorId(genre, artist))
+    );
+    // Zero or malformed vectors would drag the centroid towards the origin
+    const vectors = (await getVectorsByIds(env.ARTIST_EMBEDDINGS, ids))
+      .map((v) => toNumberArray(v.values))
+      .filter((values) => embeddingProblem(values) === null);
+
+    if (vectors.length === 0) {
+      console.warn(`No artist vectors found for genre ${genre}`);
+      report.skipped.push({ genre, reason: "no artist vectors in index" });
+      continue;
+    }
+
+    const centroid = meanVector(vectors);
+    const previous = await getAverageGenreVector(env.ARTIST_EMBEDDINGS, genre);
+    const cosineDelta = previous
+      ? 1 - cosineSimilarity(previous, centroid)
+      : null;
+
+    await env.ARTIST_EMBEDDINGS.upsert([
+      {
+        id: averageGenreVectorId(genre),
+        values: centroid,
+        metadata: { type: "genre_average", genre }
+      }
+    ]);
+
+    report.genres.push({
+      genre,
+      artistCount: vectors.length,
+      cosineDelta:
+        cosineDelta === null ? null : Math.round(cosineDelta * 1e6) / 1e6,
+      changed: cosineDelta === null || cosineDelta > threshold
+    });
+    console.log(
+      `Recomputed centroid for ${genre} from ${vectors.length} artists (delta: ${cosineDelta ?? "new"})`
+    );
+  }
+
+  await catalog.clearDirtyGenres(
+    [
+      ...report.genres.map((g) => g.genre),
+      ...report.skipped.map((s) => s.genre)
+    ],
+    startedAt
+  );
+
+  return report;
+}
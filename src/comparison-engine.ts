@@ -20,16 +20,17 @@ export interface ComparisonResult {
   };
 }
 
-export async function compareArtists(
-  ai: Ai,
-  sourceArtist: string,
-  sourceGenre: string,
+export type SimilarityBreakdown = ComparisonResult["technicalBreakdown"];
+
+/**
+ * The numeric part of compareArtists, without the LLM explanation. Cheap
+ * enough to score a whole candidate pool once features are cached.
+ */
+export function scoreArtistSimilarity(
   sourceFeatures: ArtistFeatures,
-  targetArtist: string,
-  targetGenre: string,
   targetFeatures: ArtistFeatures,
   vectorSimilarity: number
-): Promise<ComparisonResult> {
+): SimilarityBreakdown {
   const themeSimilarity = calculateThemeSimilarity(sourceFeatures.themes, targetFeatures.themes);
   const musicalSimilarity = calculateMusicalSimilarity(
     sourceFeatures.musicalCharacteristics,
@@ -47,6 +48,27 @@ export async function compareArtists(
     lyricalSimilarity * 0.15
   );
 
+  return {
+    themeSimilarity,
+    musicalSimilarity,
+    lyricalSimilarity,
+    overallSimilarity
+  };
+}
+
+export async function compareArtists(
+  ai: Ai,
+  sourceArtist: string,
+  sourceGenre: string,
+  sourceFeatures: ArtistFeatures,
+  targetArtist: string,
+  targetGenre: string,
+  targetFeatures: ArtistFeatures,
+  vectorSimilarity: number
+): Promise<ComparisonResult> {
+  const technicalBreakdown = scoreArtistSimilarity(sourceFeatures, targetFeatures, vectorSimilarity);
+  const { themeSimilarity, musicalSimilarity, lyricalSimilarity } = technicalBreakdown;
+
   const sharedThemes = findIntersection(sourceFeatures.themes, targetFeatures.themes);
   const sharedMusical = findSharedMusicalCharacteristics(
     sourceFeatures.musicalCharacteristics,
@@ -87,12 +109,7 @@ export async function compareArtists(
 
   return {
     userFriendlyExplanation,
-    technicalBreakdown: {
-      themeSimilarity,
-      musicalSimilarity,
-      lyricalSimilarity,
-      overallSimilarity
-    },
+    technicalBreakdown,
     sharedCharacteristics: {
       themes: sharedThemes,
       musical: sharedMusical,
@@ -0,0 +1,328 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import { Label } from "@/components/label/Label";
+import { apiFetch } from "@/api-utils";
+import { formatGenreDisplay } from "@/lib/utils";
+import { namesMatch } from "@/artist-names";
+
+interface Artist {
+  name: string;
+  genre: string;
+}
+
+interface BlendSource extends Artist {
+  weight: number;
+}
+
+interface BlendResult {
+  artist: string;
+  genre: string;
+  score: number;
+  contributions: Array<{
+    artist: string;
+    genre: string;
+    weight: number;
+    share: number;
+  }>;
+}
+
+interface BlendResponse {
+  results?: BlendResult[];
+  nextOffset?: number | null;
+  error?: string;
+}
+
+const RESULT_PAGE_SIZE = 3;
+const SUGGESTION_LIMIT = 8;
+
+/**
+ * "Taylor Swift + Kendrick Lamar, in country": blends two or more weighted
+ * source artists and finds their equivalent in a target genre.
+ */
+export function ArtistBlend() {
+  const [sources, setSources] = useState<BlendSource[]>([]);
+  const [search, setSearch] = useState("");
+  const [suggestions, setSuggestions] = useState<Artist[]>([]);
+  const [genres, setGenres] = useState<string[]>([]);
+  const [targetGenre, setTargetGenre] = useState("");
+  const [results, setResults] = useState<BlendResult[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Suggest artists from the catalog as the user types
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ limit: String(SUGGESTION_LIMIT) });
+      if (search.trim()) params.set("q", search.trim());
+
+      apiFetch(`/api/artists?${params.toString()}`)
+        .then(
+          (res) =>
+            res.json() as Promise<{ artists?: Artist[]; genres?: string[] }>
+        )
+        .then((data) => {
+          if (cancelled) return;
+          setSuggestions(search.trim() ? data.artists || [] : []);
+          setGenres(data.genres || []);
+        })
+        .catch((err) => {
+          if (!cancelled) console.error("Error fetching artists:", err);
+        });
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search]);
+
+  const addSource = (artist: Artist) => {
+    const alreadyAdded = sources.some(
+      (s) =>
+        namesMatch(s.name, artist.name) && namesMatch(s.genre, artist.genre)
+    );
+    if (!alreadyAdded) {
+      setSources([...sources, { ...artist, weight: 1 }]);
+    }
+    setSearch("");
+    setSuggestions([]);
+  };
+
+  const fetchBlend = async (offset: number): Promise<BlendResponse> => {
+    const response = await apiFetch("/api/find-blend", {
+      method: "POST",
+      body: JSON.stringify({
+        sources: sources.map((s) => ({
+          artist: s.name,
+          genre: s.genre,
+          weight: s.weight
+        })),
+        targetGenre,
+        limit: RESULT_PAGE_SIZE,
+        offset
+      })
+    });
+
+    const data = (await response.json()) as BlendResponse;
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+    return data;
+  };
+
+  const handleBlend = async () => {
+    setLoading(true);
+    setError(null);
+    setResults([]);
+    setNextOffset(null);
+    try {
+      const data = await fetchBlend(0);
+      if (!data.results || data.results.length === 0) {
+        setError("No results returned for this blend.");
+      }
+      setResults(data.results || []);
+      setNextOffset(data.nextOffset ?? null);
+    } catch (err) {
+      console.error("Error blending artists:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (nextOffset === null) return;
+    setLoading(true);
+    try {
+      const data = await fetchBlend(nextOffset);
+      setResults((prev) => [...prev, ...(data.results || [])]);
+      setNextOffset(data.nextOffset ?? null);
+    } catch (err) {
+      console.error("Error loading more blend results:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Artist Blend</h2>
+        <p className="text-sm text-muted-foreground">
+          Mix two or more artists, weight them, and find who that blend would be
+          in another genre.
+        </p>
+      </div>
+
+      {error && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <strong className="font-bold">Error:</strong>
+          <span className="block sm:inline"> {error}</span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {sources.map((source, index) => (
+          <div
+            key={`${source.genre}:${source.name}`}
+            className="flex items-center gap-4"
+          >
+            <div className="flex-1">
+              <div className="font-medium">{source.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {formatGenreDisplay(source.genre)}
+              </div>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={source.weight}
+              aria-label={`Weight for ${source.name}`}
+              onChange={(e) => {
+                const weight = Number(e.target.value);
+                setSources(
+                  sources.map((s, i) => (i === index ? { ...s, weight } : s))
+                );
+              }}
+            />
+            <span className="w-10 text-sm font-mono text-muted-foreground">
+              {source.weight.toFixed(1)}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setSources(sources.filter((_, i) => i !== index))}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+
+        <div className="relative">
+          <Label htmlFor="blend-artist-search" title="Add an artist" />
+          <input
+            id="blend-artist-search"
+            type="text"
+            autoComplete="off"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search artists..."
+            className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+          />
+          {suggestions.length > 0 && (
+            <div className="absolute z-10 w-full mt-1 bg-white dark:bg-neutral-900 border border-neutral-300 dark:border-neutral-700 rounded-md shadow-lg max-h-60 overflow-auto">
+              {suggestions.map((artist) => (
+                <button
+                  key={`${artist.genre}:${artist.name}`}
+                  type="button"
+                  onClick={() => addSource(artist)}
+                  className="w-full text-left px-4 py-2 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                >
+                  <div className="font-medium">{artist.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatGenreDisplay(artist.genre)}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <Label htmlFor="blend-target-genre" title="Target genre" />
+          <select
+            id="blend-target-genre"
+            value={targetGenre}
+            onChange={(e) => setTargetGenre(e.target.value)}
+            className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+          >
+            <option value="">Choose a genre</option>
+            {genres
+              .filter((genre) => genre.toLowerCase() !== "misc")
+              .map((genre) => (
+                <option key={genre} value={genre}>
+                  {formatGenreDisplay(genre)}
+                </option>
+              ))}
+          </select>
+        </div>
+
+        <Button
+          onClick={handleBlend}
+          disabled={sources.length < 2 || !targetGenre || loading}
+          className="w-full"
+        >
+          {loading ? "Blending..." : "Find Blend"}
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">Blended Equivalents</h3>
+          {results.map((result) => (
+            <Card
+              key={`${result.genre}:${result.artist}`}
+              className="p-4 bg-neutral-100 dark:bg-neutral-900 space-y-3"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-semibold text-lg">{result.artist}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {formatGenreDisplay(result.genre)}
+                  </div>
+                </div>
+                <div className="text-sm font-mono text-muted-foreground">
+                  Similarity: {(result.score * 100).toFixed(1)}%
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <div className="text-xs font-medium text-muted-foreground">
+                  Contribution
+                </div>
+                {result.contributions.map((contribution) => (
+                  <div
+                    key={`${contribution.genre}:${contribution.artist}`}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <span className="w-40 truncate">{contribution.artist}</span>
+                    <div className="flex-1 bg-neutral-200 dark:bg-neutral-800 rounded-full h-1.5 overflow-hidden">
+                      <div
+                        className="h-full bg-[#F48120] rounded-full"
+                        style={{ width: `${contribution.share * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-12 text-right font-mono text-muted-foreground">
+                      {(contribution.share * 100).toFixed(0)}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          ))}
+
+          {nextOffset !== null && (
+            <Button
+              onClick={handleLoadMore}
+              variant="secondary"
+              size="md"
+              className="w-full"
+              disabled={loading}
+            >
+              {loading ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,321 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import { Label } from "@/components/label/Label";
+import { apiFetch } from "@/api-utils";
+import { formatGenreDisplay } from "@/lib/utils";
+
+interface Artist {
+  name: string;
+  genre: string;
+}
+
+interface BridgeStep {
+  t: number;
+  artist: string;
+  genre: string;
+  score: number;
+}
+
+interface BridgeResponse {
+  steps?: BridgeStep[];
+  error?: string;
+}
+
+type BridgeMode = "linear" | "slerp";
+
+const SUGGESTION_LIMIT = 8;
+const DEFAULT_STEPS = 6;
+const MAX_STEPS = 20;
+
+interface ArtistPickerProps {
+  id: string;
+  title: string;
+  selected: Artist | null;
+  onSelect: (artist: Artist | null) => void;
+}
+
+function ArtistPicker({ id, title, selected, onSelect }: ArtistPickerProps) {
+  const [search, setSearch] = useState("");
+  const [suggestions, setSuggestions] = useState<Artist[]>([]);
+
+  useEffect(() => {
+    if (!search.trim() || (selected && search === selected.name)) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({
+        q: search.trim(),
+        limit: String(SUGGESTION_LIMIT)
+      });
+      apiFetch(`/api/artists?${params.toString()}`)
+        .then((res) => res.json() as Promise<{ artists?: Artist[] }>)
+        .then((data) => {
+          if (!cancelled) setSuggestions(data.artists || []);
+        })
+        .catch((err) => {
+          if (!cancelled) console.error("Error fetching artists:", err);
+        });
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search, selected]);
+
+  return (
+    <div className="relative">
+      <Label htmlFor={id} title={title} />
+      <input
+        id={id}
+        type="text"
+        autoComplete="off"
+        value={search}
+        onChange={(e) => {
+          setSearch(e.target.value);
+          onSelect(null);
+        }}
+        placeholder="Search artists..."
+        className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 w-full mt-1 bg-white dark:bg-neutral-900 border border-neutral-300 dark:border-neutral-700 rounded-md shadow-lg max-h-60 overflow-auto">
+          {suggestions.map((artist) => (
+            <button
+              key={`${artist.genre}:${artist.name}`}
+              type="button"
+              onClick={() => {
+                onSelect(artist);
+                setSearch(artist.name);
+                setSuggestions([]);
+              }}
+              className="w-full text-left px-4 py-2 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+            >
+              <div className="font-medium">{artist.name}</div>
+              <div className="text-xs text-muted-foreground">
+                {formatGenreDisplay(artist.genre)}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+      {selected && (
+        <div className="mt-2 text-sm text-muted-foreground">
+          Selected: <span className="font-medium">{selected.name}</span>
+          <span className="ml-2">({formatGenreDisplay(selected.genre)})</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A "bridge playlist" between two artists: the nearest artist at evenly
+ * spaced points on the path between them, stepped through one at a time.
+ */
+export function ArtistBridge() {
+  const [from, setFrom] = useState<Artist | null>(null);
+  const [to, setTo] = useState<Artist | null>(null);
+  const [stepCount, setStepCount] = useState(DEFAULT_STEPS);
+  const [mode, setMode] = useState<BridgeMode>("slerp");
+  const [path, setPath] = useState<BridgeStep[]>([]);
+  const [current, setCurrent] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBuild = async () => {
+    if (!from || !to) return;
+
+    setLoading(true);
+    setError(null);
+    setPath([]);
+    setCurrent(0);
+    try {
+      const response = await apiFetch("/api/bridge", {
+        method: "POST",
+        body: JSON.stringify({
+          from: { artist: from.name, genre: from.genre },
+          to: { artist: to.name, genre: to.genre },
+          steps: stepCount,
+          mode
+        })
+      });
+      const data = (await response.json()) as BridgeResponse;
+      if (!response.ok || data.error) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setPath(data.steps || []);
+    } catch (err) {
+      console.error("Error building artist bridge:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const step = path[Math.min(current, path.length - 1)];
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Bridge Playlist</h2>
+        <p className="text-sm text-muted-foreground">
+          Pick two artists, even from different genres, and walk from one to the
+          other through the artists in between.
+        </p>
+      </div>
+
+      {error && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <strong className="font-bold">Error:</strong>
+          <span className="block sm:inline"> {error}</span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ArtistPicker
+            id="bridge-from-search"
+            title="From"
+            selected={from}
+            onSelect={setFrom}
+          />
+          <ArtistPicker
+            id="bridge-to-search"
+            title="To"
+            selected={to}
+            onSelect={setTo}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="bridge-steps" title="Artists in between" />
+            <input
+              id="bridge-steps"
+              type="number"
+              min={1}
+              max={MAX_STEPS}
+              value={stepCount}
+              onChange={(e) =>
+                setStepCount(
+                  Math.min(Math.max(Number(e.target.value) || 1, 1), MAX_STEPS)
+                )
+              }
+              className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+            />
+          </div>
+          <div>
+            <Label htmlFor="bridge-mode" title="Path" />
+            <select
+              id="bridge-mode"
+              value={mode}
+              onChange={(e) => setMode(e.target.value as BridgeMode)}
+              className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+            >
+              <option value="slerp">Curved (spherical)</option>
+              <option value="linear">Straight line</option>
+            </select>
+          </div>
+        </div>
+
+        <Button
+          onClick={handleBuild}
+          disabled={!from || !to || loading}
+          className="w-full"
+        >
+          {loading ? "Building..." : "Build Bridge"}
+        </Button>
+      </div>
+
+      {step && (
+        <div className="space-y-4">
+          <Card className="p-4 bg-neutral-100 dark:bg-neutral-900 space-y-3">
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                Step {current + 1} of {path.length}
+              </span>
+              <span className="font-mono">
+                {Math.round(step.t * 100)}% of the way
+              </span>
+            </div>
+            <div>
+              <div className="font-semibold text-lg">{step.artist}</div>
+              <div className="text-sm text-muted-foreground">
+                {formatGenreDisplay(step.genre)}
+              </div>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={path.length - 1}
+              step={1}
+              value={current}
+              onChange={(e) => setCurrent(Number(e.target.value))}
+              aria-label="Bridge step"
+              className="w-full"
+            />
+            <div className="flex gap-2">
+              <Button
+                onClick={() => setCurrent((i) => Math.max(i - 1, 0))}
+                variant="secondary"
+                size="md"
+                className="flex-1"
+                disabled={current === 0}
+              >
+                Previous
+              </Button>
+              <Button
+                onClick={() =>
+                  setCurrent((i) => Math.min(i + 1, path.length - 1))
+                }
+                variant="secondary"
+                size="md"
+                className="flex-1"
+                disabled={current >= path.length - 1}
+              >
+                Next
+              </Button>
+            </div>
+          </Card>
+
+          <ol className="space-y-1">
+            {path.map((s, i) => (
+              <li key={`${s.genre}:${s.artist}`}>
+                <button
+                  type="button"
+                  onClick={() => setCurrent(i)}
+                  className={`w-full flex items-center justify-between text-sm px-2 py-1 rounded ${
+                    i === current
+                      ? "bg-[#F48120]/10 font-semibold"
+                      : "hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                  }`}
+                >
+                  <span>
+                    {i + 1}. {s.artist}
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {formatGenreDisplay(s.genre)}
+                    </span>
+                  </span>
+                  {i > 0 && i < path.length - 1 && (
+                    <span className="font-mono text-muted-foreground">
+                      {(s.score * 100).toFixed(1)}%
+                    </span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { Card } from "@/components/card/Card";
 import type { ComparisonResult } from "@/comparison-engine";
-import { formatGenreDisplay, fixArtistName } from "@/lib/utils";
+import { formatGenreDisplay } from "@/lib/utils";
 
 interface ComparisonCardProps {
   sourceArtist: string;
@@ -23,7 +23,7 @@ export function ComparisonCard({
         {/* Source Artist */}
         <div className="space-y-3">
           <div>
-            <div className="font-semibold text-lg">{fixArtistName(sourceArtist)}</div>
+            <div className="font-semibold text-lg">{sourceArtist}</div>
             <div className="text-sm text-muted-foreground">{formatGenreDisplay(sourceGenre)}</div>
           </div>
           
@@ -47,7 +47,7 @@ export function ComparisonCard({
         {/* Target Artist */}
         <div className="space-y-3">
           <div>
-            <div className="font-semibold text-lg">{fixArtistName(targetArtist)}</div>
+            <div className="font-semibold text-lg">{targetArtist}</div>
             <div className="text-sm text-muted-foreground">{formatGenreDisplay(targetGenre)}</div>
           </div>
           
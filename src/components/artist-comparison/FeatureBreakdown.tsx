@@ -3,7 +3,6 @@ import { Card } from "@/components/card/Card";
 import { Button } from "@/components/button/Button";
 import type { ArtistFeatures } from "@/feature-extractor";
 import type { ComparisonResult } from "@/comparison-engine";
-import { fixArtistName } from "@/lib/utils";
 
 interface FeatureBreakdownProps {
   sourceArtist: string;
@@ -45,7 +44,7 @@ export function FeatureBreakdown({
           <div className="mt-2 space-y-3 p-3 bg-neutral-50 dark:bg-neutral-900 rounded">
             <div>
               <div className="text-xs font-medium text-muted-foreground mb-1">
-                {fixArtistName(sourceArtist)} Themes
+                {sourceArtist} Themes
               </div>
               <div className="flex flex-wrap gap-1">
                 {sourceFeatures.themes.map((theme, idx) => (
@@ -64,7 +63,7 @@ export function FeatureBreakdown({
             </div>
             <div>
               <div className="text-xs font-medium text-muted-foreground mb-1">
-                {fixArtistName(targetArtist)} Themes
+                {targetArtist} Themes
               </div>
               <div className="flex flex-wrap gap-1">
                 {targetFeatures.themes.map((theme, idx) => (
@@ -140,7 +139,7 @@ export function FeatureBreakdown({
               </div>
               <div>
                 <div className="text-xs font-medium text-muted-foreground mb-1">
-                  {fixArtistName(targetArtist)}
+                  {targetArtist}
                 </div>
                 <div className="space-y-1">
                   {targetFeatures.musicalCharacteristics.tempo && (
@@ -210,7 +209,7 @@ export function FeatureBreakdown({
               </div>
               <div>
                 <div className="text-xs font-medium text-muted-foreground mb-1">
-                  {fixArtistName(targetArtist)}
+                  {targetArtist}
                 </div>
                 <div className="space-y-1">
                   <div>Complexity: {targetFeatures.lyricalStyle.complexity}</div>
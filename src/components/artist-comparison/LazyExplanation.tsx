@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from "react";
+import { ExplanationSummary } from "@/components/artist-comparison/ExplanationSummary";
+import { ComparisonCard } from "@/components/artist-comparison/ComparisonCard";
+import { FeatureBreakdown } from "@/components/artist-comparison/FeatureBreakdown";
+import type { ComparisonResult } from "@/comparison-engine";
+import type { ArtistFeatures } from "@/feature-extractor";
+import { apiFetch } from "@/api-utils";
+
+interface LazyExplanationProps {
+  sourceArtist: string;
+  sourceGenre: string;
+  targetArtist: string;
+  targetGenre: string;
+  score: number;
+}
+
+interface CompareResponse {
+  comparison: ComparisonResult | null;
+  sourceFeatures?: ArtistFeatures;
+  targetFeatures?: ArtistFeatures;
+  error?: string;
+}
+
+/**
+ * Fetches the explanation for one result the first time it scrolls into
+ * view, so results that are never looked at don't cost any LLM calls.
+ */
+export function LazyExplanation({
+  sourceArtist,
+  sourceGenre,
+  targetArtist,
+  targetGenre,
+  score
+}: LazyExplanationProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [data, setData] = useState<CompareResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element || visible) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [visible]);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+
+    apiFetch("/api/compare-artists", {
+      method: "POST",
+      body: JSON.stringify({
+        sourceArtist,
+        sourceGenre,
+        targetArtist,
+        targetGenre,
+        vectorSimilarity: score
+      })
+    })
+      .then((res) => res.json() as Promise<CompareResponse>)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.error || !result.comparison) {
+          setError(result.error || "No explanation available");
+        } else {
+          setData(result);
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error(`Error explaining ${targetArtist}:`, err);
+        setError("Failed to load explanation");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, sourceArtist, sourceGenre, targetArtist, targetGenre, score]);
+
+  const explanation = data?.comparison;
+
+  return (
+    <div ref={containerRef}>
+      {!explanation && !error && (
+        <p className="text-sm text-muted-foreground">
+          Generating explanation...
+        </p>
+      )}
+      {error && <p className="text-sm text-muted-foreground">{error}</p>}
+
+      {explanation && (
+        <>
+          <ExplanationSummary
+            sourceArtist={sourceArtist}
+            targetArtist={targetArtist}
+            explanation={explanation}
+          />
+
+          <div className="mt-4">
+            <ComparisonCard
+              sourceArtist={sourceArtist}
+              sourceGenre={sourceGenre}
+              targetArtist={targetArtist}
+              targetGenre={targetGenre}
+              explanation={explanation}
+            />
+          </div>
+
+          {data.sourceFeatures && data.targetFeatures && (
+            <div className="mt-4">
+              <FeatureBreakdown
+                sourceArtist={sourceArtist}
+                sourceFeatures={data.sourceFeatures}
+                targetArtist={targetArtist}
+                targetFeatures={data.targetFeatures}
+                explanation={explanation}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { apiFetch } from "@/api-utils";
+import { formatGenreDisplay } from "@/lib/utils";
+
+interface AlphaSweepProps {
+  sourceArtist: string;
+  sourceGenre: string;
+  targetGenre: string;
+}
+
+interface SweepStep {
+  alpha: number;
+  results: Array<{ artist: string; genre: string; score: number }>;
+}
+
+interface SweepResponse {
+  steps?: SweepStep[];
+  error?: string;
+}
+
+/**
+ * A slider over genre-shift strength. Every step is fetched up front in one
+ * request, so moving the slider only switches between precomputed results.
+ */
+export function AlphaSweep({
+  sourceArtist,
+  sourceGenre,
+  targetGenre
+}: AlphaSweepProps) {
+  const [steps, setSteps] = useState<SweepStep[]>([]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSteps([]);
+    setError(null);
+
+    apiFetch("/api/find-equivalent/sweep", {
+      method: "POST",
+      body: JSON.stringify({ sourceArtist, sourceGenre, targetGenre })
+    })
+      .then((res) => res.json() as Promise<SweepResponse>)
+      .then((data) => {
+        if (cancelled) return;
+        if (data.error) {
+          setError(data.error);
+          return;
+        }
+        const loaded = data.steps || [];
+        setSteps(loaded);
+        // Start at the full transfer, which matches the main results
+        const full = loaded.findIndex((step) => step.alpha === 1);
+        setStepIndex(full >= 0 ? full : 0);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Error loading genre-shift sweep:", err);
+        setError("Failed to load genre-shift sweep");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceArtist, sourceGenre, targetGenre]);
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
+  if (steps.length === 0) {
+    return null;
+  }
+
+  const step = steps[Math.min(stepIndex, steps.length - 1)];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold">Genre-shift strength</h4>
+        <span className="text-sm font-mono text-muted-foreground">
+          α = {step.alpha.toFixed(2)}
+        </span>
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={steps.length - 1}
+        step={1}
+        value={stepIndex}
+        onChange={(e) => setStepIndex(Number(e.target.value))}
+        aria-label="Genre-shift strength"
+        className="w-full"
+      />
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{sourceArtist} as-is</span>
+        <span>More {formatGenreDisplay(targetGenre)}</span>
+      </div>
+      <ul className="space-y-1">
+        {step.results.map((result, i) => (
+          <li
+            key={`${result.genre}:${result.artist}`}
+            className="flex items-center justify-between text-sm"
+          >
+            <span>
+              {i + 1}. {result.artist}
+            </span>
+            <span className="font-mono text-muted-foreground">
+              {(result.score * 100).toFixed(1)}%
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -2,36 +2,62 @@ import { useEffect, useState, useMemo, useRef } from "react";
 import { Button } from "@/components/button/Button";
 import { Card } from "@/components/card/Card";
 import { Label } from "@/components/label/Label";
-import { ExplanationSummary } from "@/components/artist-comparison/ExplanationSummary";
-import { ComparisonCard } from "@/components/artist-comparison/ComparisonCard";
-import { FeatureBreakdown } from "@/components/artist-comparison/FeatureBreakdown";
-import type { ComparisonResult } from "@/comparison-engine";
-import type { ArtistFeatures } from "@/feature-extractor";
+import { LazyExplanation } from "@/components/artist-comparison/LazyExplanation";
+import { GenreFingerprint } from "@/components/artist-equivalence/GenreFingerprint";
+import { EquivalenceGrid } from "@/components/artist-equivalence/EquivalenceGrid";
+import { AlphaSweep } from "@/components/artist-equivalence/AlphaSweep";
 import { apiFetch } from "@/api-utils";
-import { formatGenreDisplay, fixArtistName } from "@/lib/utils";
+import { formatGenreDisplay } from "@/lib/utils";
+import { namesMatch } from "@/artist-names";
 
 interface Artist {
   name: string;
   genre: string;
 }
 
-interface EnhancedEquivalentResult {
+interface EquivalentResult {
   artist: string;
   genre: string;
   score: number;
-  explanation: ComparisonResult | null;
-  sourceFeatures: ArtistFeatures | null;
-  targetFeatures: ArtistFeatures | null;
+  // Only present when results were re-ranked by features
+  vectorScore?: number;
+  originalRank?: number;
+  rank?: number;
+}
+
+interface EquivalentResponse {
+  results?: EquivalentResult[];
+  nextOffset?: number | null;
+  error?: string;
+}
+
+interface SearchOptions {
+  rerank: boolean;
+  // 1 disables diversification
+  mmrLambda: number;
 }
 
 interface ArtistEquivalenceProps {
   onGenerateSong: (sourceArtist: string, sourceGenre: string, targetArtist: string, targetGenre: string) => void;
 }
 
+interface ArtistsResponse {
+  artists: Artist[];
+  genres: string[];
+  total?: number;
+  nextOffset?: number | null;
+  error?: string;
+}
+
+const ARTIST_PAGE_SIZE = 50;
+const RESULT_PAGE_SIZE = 3;
+
 export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
   const [artists, setArtists] = useState<Artist[]>([]);
+  const [artistsTotal, setArtistsTotal] = useState(0);
+  const [artistsNextOffset, setArtistsNextOffset] = useState<number | null>(null);
   const [genres, setGenres] = useState<string[]>([]);
-  const [selectedArtist, setSelectedArtist] = useState<string>("");
+  const [selectedArtistData, setSelectedArtistData] = useState<Artist | null>(null);
   const [selectedGenre, setSelectedGenre] = useState<string>("");
   const [genreFilter, setGenreFilter] = useState<string>("");
   const [artistSearch, setArtistSearch] = useState<string>("");
@@ -40,9 +66,16 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
   const [showArtistDropdown, setShowArtistDropdown] = useState(false);
   const [showGenreFilterDropdown, setShowGenreFilterDropdown] = useState(false);
   const [showTargetGenreDropdown, setShowTargetGenreDropdown] = useState(false);
-  const [results, setResults] = useState<EnhancedEquivalentResult[]>([]);
+  const [results, setResults] = useState<EquivalentResult[]>([]);
+  const [resultsNextOffset, setResultsNextOffset] = useState<number | null>(null);
+  const [searchedArtist, setSearchedArtist] = useState<Artist | null>(null);
+  const [searchedGenre, setSearchedGenre] = useState<string>("");
+  const [matrixArtist, setMatrixArtist] = useState<Artist | null>(null);
+  const [rerank, setRerank] = useState(false);
+  const [mmrLambda, setMmrLambda] = useState(1);
+  const [searchedOptions, setSearchedOptions] = useState<SearchOptions>({ rerank: false, mmrLambda: 1 });
   const [loading, setLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState<string>("Finding equivalent artists...");
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const artistDropdownRef = useRef<HTMLDivElement>(null);
   const genreFilterDropdownRef = useRef<HTMLDivElement>(null);
@@ -50,30 +83,63 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
   const artistInputRef = useRef<HTMLInputElement>(null);
   const targetGenreInputRef = useRef<HTMLInputElement>(null);
 
-  // Fetch artists and genres on mount
+  const fetchArtists = async (offset: number): Promise<ArtistsResponse> => {
+    const params = new URLSearchParams({
+      offset: String(offset),
+      limit: String(ARTIST_PAGE_SIZE)
+    });
+    if (artistSearch.trim()) params.set("q", artistSearch.trim());
+    if (genreFilter) params.set("genre", genreFilter);
+
+    const res = await apiFetch(`/api/artists?${params.toString()}`);
+    if (!res.ok) {
+      throw new Error(`HTTP error! status: ${res.status}`);
+    }
+    return res.json() as Promise<ArtistsResponse>;
+  };
+
+  // Search the artist catalog whenever the search text or genre filter changes
+  // biome-ignore lint/correctness/useExhaustiveDependencies: fetchArtists only reads artistSearch and genreFilter
   useEffect(() => {
-    apiFetch("/api/artists")
-      .then((res) => {
-        if (!res.ok) {
-          throw new Error(`HTTP error! status: ${res.status}`);
-        }
-        return res.json() as Promise<{ artists: Artist[]; genres: string[]; error?: string }>;
-      })
-      .then((data) => {
-        if (data.error) {
-          console.error("API error:", data.error);
-        }
-        setArtists(data.artists || []);
-        setGenres(data.genres || []);
-        if ((data.artists || []).length === 0) {
-          console.warn("No artists found. Make sure embeddings are uploaded to Vectorize.");
-        }
-      })
-      .catch((error) => {
-        console.error("Error fetching artists:", error);
-        setError("Failed to load artists and genres.");
-      });
-  }, []);
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetchArtists(0)
+        .then((data) => {
+          if (cancelled) return;
+          if (data.error) {
+            console.error("API error:", data.error);
+          }
+          setArtists(data.artists || []);
+          setArtistsTotal(data.total ?? (data.artists || []).length);
+          setArtistsNextOffset(data.nextOffset ?? null);
+          setGenres(data.genres || []);
+          if (!artistSearch && !genreFilter && (data.artists || []).length === 0) {
+            console.warn("No artists found. Make sure the artist catalog has been populated.");
+          }
+        })
+        .catch((error) => {
+          if (cancelled) return;
+          console.error("Error fetching artists:", error);
+          setError("Failed to load artists and genres.");
+        });
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [artistSearch, genreFilter]);
+
+  const handleLoadMoreArtists = async () => {
+    if (artistsNextOffset === null) return;
+    try {
+      const data = await fetchArtists(artistsNextOffset);
+      setArtists((prev) => [...prev, ...(data.artists || [])]);
+      setArtistsNextOffset(data.nextOffset ?? null);
+    } catch (error) {
+      console.error("Error fetching more artists:", error);
+    }
+  };
 
   // Close dropdowns when clicking outside
   useEffect(() => {
@@ -97,19 +163,7 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
     }
   }, [showArtistDropdown, showGenreFilterDropdown, showTargetGenreDropdown]);
 
-  // Get selected artist data (now using just artist name)
-  const selectedArtistData = artists.find((a) => a.name === selectedArtist);
-  
-  // Filter artists by genre filter and search query
-  const filteredArtists = useMemo(() => {
-    return artists.filter((artist) => {
-      const matchesGenre = !genreFilter || artist.genre.toLowerCase() === genreFilter.toLowerCase();
-      const matchesSearch = !artistSearch || 
-        artist.name.toLowerCase().includes(artistSearch.toLowerCase()) ||
-        artist.genre.toLowerCase().includes(artistSearch.toLowerCase());
-      return matchesGenre && matchesSearch;
-    });
-  }, [artists, genreFilter, artistSearch]);
+  const selectedArtist = selectedArtistData?.name ?? "";
 
   // Filter genres for genre filter dropdown
   const filteredGenresForFilter = useMemo(() => {
@@ -133,6 +187,36 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
   }, [genres, targetGenreSearch]);
 
 
+  const fetchEquivalent = async (
+    source: Artist,
+    targetGenre: string,
+    offset: number,
+    options: SearchOptions
+  ): Promise<EquivalentResponse> => {
+    const requestBody = {
+      sourceArtist: source.name,
+      sourceGenre: source.genre,
+      targetGenre,
+      rerank: options.rerank,
+      mmrLambda: options.mmrLambda < 1 ? options.mmrLambda : undefined,
+      limit: RESULT_PAGE_SIZE,
+      offset
+    };
+
+    console.log("Calling /api/find-equivalent with:", requestBody);
+
+    const response = await apiFetch("/api/find-equivalent", {
+      method: "POST",
+      body: JSON.stringify(requestBody)
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: "Unknown error" })) as { error?: string };
+      throw new Error(`Error ${response.status}: ${errorData.error || "Failed to find equivalent artists"}`);
+    }
+    return response.json() as Promise<EquivalentResponse>;
+  };
+
   const handleFindEquivalent = async () => {
     if (!selectedArtist || !selectedGenre || !selectedArtistData) {
       setError("Please select both an artist and a target genre.");
@@ -141,73 +225,48 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
 
     setLoading(true);
     setResults([]);
+    setResultsNextOffset(null);
     setError(null);
-    setLoadingMessage("Finding equivalent artists...");
-
-    // Simulate progress messages
-    const progressMessages = [
-      "Finding equivalent artists...",
-      "Processing results with explanations...",
-      "Extracting artist features...",
-      "Comparing artists...",
-      "Generating explanations..."
-    ];
-
-    let messageIndex = 0;
-    let messageInterval: ReturnType<typeof setInterval> | null = null;
-    
-    messageInterval = setInterval(() => {
-      messageIndex = (messageIndex + 1) % progressMessages.length;
-      setLoadingMessage(progressMessages[messageIndex]);
-    }, 1500);
 
     try {
-      const requestBody = {
-        sourceArtist: selectedArtistData.name,
-        sourceGenre: selectedArtistData.genre,
-        targetGenre: selectedGenre,
-        includeExplanations: true
-      };
-      
-      console.log("Calling /api/find-equivalent with:", requestBody);
-      
-      const response = await apiFetch("/api/find-equivalent", {
-        method: "POST",
-        body: JSON.stringify(requestBody)
-      });
+      const data = await fetchEquivalent(selectedArtistData, selectedGenre, 0, { rerank, mmrLambda });
+      console.log("Response data:", data);
 
-      if (response.ok) {
-        const data = await response.json() as { results?: EnhancedEquivalentResult[]; error?: string };
-        console.log("Response data:", data);
-        console.log("First result structure:", data.results?.[0]);
-        console.log("Has explanation in first result:", !!data.results?.[0]?.explanation);
-        
-        if (data.results && Array.isArray(data.results)) {
-          if (data.results.length > 0) {
-            setResults(data.results);
-            // Log explanation status
-            data.results.forEach((r: EnhancedEquivalentResult, idx: number) => {
-              console.log(`Result ${idx + 1}: ${r.artist} - has explanation: ${!!r.explanation}, has features: ${!!r.sourceFeatures}`);
-            });
-          } else {
-            setError("No results returned for this combination.");
-          }
-        } else if (data.error) {
-          setError(`API Error: ${data.error}`);
+      if (data.results && Array.isArray(data.results)) {
+        if (data.results.length > 0) {
+          // Explanations are fetched per result as they scroll into view
+          setResults(data.results);
+          setResultsNextOffset(data.nextOffset ?? null);
+          setSearchedArtist(selectedArtistData);
+          setSearchedGenre(selectedGenre);
+          setSearchedOptions({ rerank, mmrLambda });
+        } else {
+          setError("No results returned for this combination.");
         }
-      } else {
-        const errorData = await response.json().catch(() => ({ error: "Unknown error" })) as { error?: string };
-        setError(`Error ${response.status}: ${errorData.error || "Failed to find equivalent artists"}`);
+      } else if (data.error) {
+        setError(`API Error: ${data.error}`);
       }
     } catch (error) {
       console.error("Error finding equivalent artists:", error);
       setError(`Failed to find equivalent artists: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
-      if (messageInterval) {
-        clearInterval(messageInterval);
-      }
       setLoading(false);
-      setLoadingMessage("Finding equivalent artists...");
+    }
+  };
+
+  const handleLoadMoreResults = async () => {
+    if (resultsNextOffset === null || !searchedArtist) return;
+
+    setLoadingMore(true);
+    try {
+      const data = await fetchEquivalent(searchedArtist, searchedGenre, resultsNextOffset, searchedOptions);
+      setResults((prev) => [...prev, ...(data.results || [])]);
+      setResultsNextOffset(data.nextOffset ?? null);
+    } catch (error) {
+      console.error("Error fetching more equivalent artists:", error);
+      setError(`Failed to load more results: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoadingMore(false);
     }
   };
 
@@ -237,7 +296,7 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
           <div className="w-full bg-neutral-200 dark:bg-neutral-800 rounded-full h-1.5 overflow-hidden">
             <div className="h-full bg-[#F48120] rounded-full progress-bar-animation" />
           </div>
-          <p className="text-sm text-muted-foreground text-center">{loadingMessage}</p>
+          <p className="text-sm text-muted-foreground text-center">Finding equivalent artists...</p>
         </div>
       )}
 
@@ -268,8 +327,8 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
                   setGenreFilterSearch(genre);
                   setShowGenreFilterDropdown(false);
                   // Clear artist selection if it no longer matches filter
-                  if (selectedArtistData && selectedArtistData.genre.toLowerCase() !== genre.toLowerCase()) {
-                    setSelectedArtist("");
+                  if (selectedArtistData && !namesMatch(selectedArtistData.genre, genre)) {
+                    setSelectedArtistData(null);
                     setArtistSearch("");
                   }
                   // Auto-focus artist input
@@ -306,8 +365,8 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
                       setGenreFilterSearch(genre);
                       setShowGenreFilterDropdown(false);
                       // Clear artist selection if it no longer matches filter
-                      if (selectedArtistData && selectedArtistData.genre.toLowerCase() !== genre.toLowerCase()) {
-                        setSelectedArtist("");
+                      if (selectedArtistData && !namesMatch(selectedArtistData.genre, genre)) {
+                        setSelectedArtistData(null);
                         setArtistSearch("");
                       }
                       // Auto-focus artist input
@@ -345,14 +404,14 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
               setShowArtistDropdown(true);
               // Clear selection if search doesn't match selected artist
               if (selectedArtist && e.target.value !== selectedArtist) {
-                setSelectedArtist("");
+                setSelectedArtistData(null);
               }
             }}
             onKeyDown={(e) => {
-              if (e.key === "Enter" && filteredArtists.length === 1) {
+              if (e.key === "Enter" && artists.length === 1) {
                 e.preventDefault();
-                const artist = filteredArtists[0];
-                setSelectedArtist(artist.name);
+                const artist = artists[0];
+                setSelectedArtistData(artist);
                 setArtistSearch(artist.name);
                 setShowArtistDropdown(false);
                 // Auto-focus target genre input
@@ -365,13 +424,13 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
           />
           {showArtistDropdown && (
             <div className="absolute z-10 w-full mt-1 bg-white dark:bg-neutral-900 border border-neutral-300 dark:border-neutral-700 rounded-md shadow-lg max-h-60 overflow-auto">
-              {filteredArtists.length > 0 ? (
-                filteredArtists.map((artist) => (
+              {artists.length > 0 ? (
+                artists.map((artist) => (
                   <button
                     key={`${artist.genre}-${artist.name}`}
                     type="button"
                     onClick={() => {
-                      setSelectedArtist(artist.name);
+                      setSelectedArtistData(artist);
                       setArtistSearch(artist.name);
                       setShowArtistDropdown(false);
                       // Auto-focus target genre input
@@ -381,7 +440,7 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
                       selectedArtist === artist.name ? "bg-neutral-100 dark:bg-neutral-800" : ""
                     }`}
                   >
-                    <div className="font-medium">{fixArtistName(artist.name)}</div>
+                    <div className="font-medium">{artist.name}</div>
                     <div className="text-xs text-muted-foreground">{formatGenreDisplay(artist.genre)}</div>
                   </button>
                 ))
@@ -390,16 +449,28 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
                   No artists found
                 </div>
               )}
+              {artistsNextOffset !== null && (
+                <button
+                  type="button"
+                  onClick={handleLoadMoreArtists}
+                  className="w-full text-left px-4 py-2 text-sm text-muted-foreground hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                >
+                  Showing {artists.length} of {artistsTotal}. Load more...
+                </button>
+              )}
             </div>
           )}
           {selectedArtist && (
             <div className="mt-2 text-sm text-muted-foreground">
-              Selected: <span className="font-medium">{fixArtistName(selectedArtist)}</span>
+              Selected: <span className="font-medium">{selectedArtist}</span>
               {selectedArtistData && (
                 <span className="ml-2">({formatGenreDisplay(selectedArtistData.genre)})</span>
               )}
             </div>
           )}
+          {selectedArtistData && (
+            <GenreFingerprint artist={selectedArtistData.name} genre={selectedArtistData.genre} />
+          )}
         </div>
 
         <div className="text-2xl font-bold text-muted-foreground self-center">+</div>
@@ -478,80 +549,101 @@ export function ArtistEquivalence({ onGenerateSong }: ArtistEquivalenceProps) {
             >
               {loading ? "Finding..." : "Find Equivalent"}
             </Button>
+            <Button
+              onClick={() => setMatrixArtist(selectedArtistData)}
+              disabled={!selectedArtistData}
+              variant="secondary"
+              className="whitespace-nowrap mt-2"
+            >
+              Every Genre
+            </Button>
           </div>
         </div>
+
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input type="checkbox" checked={rerank} onChange={(e) => setRerank(e.target.checked)} />
+          Re-rank by themes, music and lyrics (slower)
+        </label>
+
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          Relevance vs. variety (λ)
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            value={mmrLambda}
+            onChange={(e) => setMmrLambda(Number(e.target.value))}
+          />
+          <span className="font-mono">{mmrLambda === 1 ? "off" : mmrLambda.toFixed(1)}</span>
+        </label>
       </div>
 
+      {matrixArtist && <EquivalenceGrid artist={matrixArtist.name} genre={matrixArtist.genre} />}
+
       {/* Results with Explanations */}
-      {results.length > 0 && (
+      {results.length > 0 && searchedArtist && (
         <div className="space-y-6">
-          <h3 className="text-lg font-semibold">Top 3 Equivalent Artists</h3>
-          {results.map((result, index) => (
-            <div key={index} className="space-y-4">
+          <h3 className="text-lg font-semibold">Equivalent Artists</h3>
+          <Card className="p-4 bg-neutral-100 dark:bg-neutral-900">
+            <AlphaSweep sourceArtist={searchedArtist.name} sourceGenre={searchedArtist.genre} targetGenre={searchedGenre} />
+          </Card>
+          {results.map((result) => (
+            <div key={`${result.genre}:${result.artist}`} className="space-y-4">
               <Card className="p-4 bg-neutral-100 dark:bg-neutral-900">
                 <div className="flex items-center justify-between mb-4">
                   <div>
-                    <div className="font-semibold text-lg">{fixArtistName(result.artist)}</div>
+                    <div className="font-semibold text-lg">{result.artist}</div>
                     <div className="text-sm text-muted-foreground">{formatGenreDisplay(result.genre)}</div>
                   </div>
-                  <div className="text-sm font-mono text-muted-foreground">
-                    Similarity: {(result.score * 100).toFixed(1)}%
+                  <div className="text-sm font-mono text-muted-foreground text-right">
+                    <div>Similarity: {(result.score * 100).toFixed(1)}%</div>
+                    {result.originalRank !== undefined && result.vectorScore !== undefined && (
+                      <div className="text-xs">
+                        Vector: {(result.vectorScore * 100).toFixed(1)}%, was #{result.originalRank}
+                      </div>
+                    )}
                   </div>
                 </div>
 
-                {result.explanation && selectedArtistData && (
-                  <>
-                    <ExplanationSummary
-                      sourceArtist={fixArtistName(selectedArtistData.name)}
-                      targetArtist={fixArtistName(result.artist)}
-                      explanation={result.explanation}
-                    />
-                    
-                    <div className="mt-4">
-                      <ComparisonCard
-                        sourceArtist={fixArtistName(selectedArtistData.name)}
-                        sourceGenre={selectedArtistData.genre}
-                        targetArtist={fixArtistName(result.artist)}
-                        targetGenre={result.genre}
-                        explanation={result.explanation}
-                      />
-                    </div>
-
-                    {result.sourceFeatures && result.targetFeatures && (
-                      <div className="mt-4">
-                        <FeatureBreakdown
-                          sourceArtist={fixArtistName(selectedArtistData.name)}
-                          sourceFeatures={result.sourceFeatures}
-                          targetArtist={fixArtistName(result.artist)}
-                          targetFeatures={result.targetFeatures}
-                          explanation={result.explanation}
-                        />
-                      </div>
-                    )}
-                  </>
-                )}
+                <LazyExplanation
+                  sourceArtist={searchedArtist.name}
+                  sourceGenre={searchedArtist.genre}
+                  targetArtist={result.artist}
+                  targetGenre={result.genre}
+                  score={result.score}
+                />
 
                 <Button
                   onClick={() => {
-                    if (selectedArtistData) {
-                      onGenerateSong(
-                        selectedArtistData.name,
-                        selectedArtistData.genre,
-                        result.artist,
-                        result.genre
-                      );
-                    }
+                    onGenerateSong(
+                      searchedArtist.name,
+                      searchedArtist.genre,
+                      result.artist,
+                      result.genre
+                    );
                   }}
                   variant="primary"
                   size="md"
                   className="mt-4 w-full"
-                  disabled={!selectedArtistData}
                 >
-                  Generate Song: {fixArtistName(selectedArtistData?.name || "")} writes {formatGenreDisplay(result.genre)} in style of {fixArtistName(result.artist)}
+                  Generate Song: {searchedArtist.name} writes {formatGenreDisplay(result.genre)} in style of {result.artist}
                 </Button>
               </Card>
             </div>
           ))}
+
+          {resultsNextOffset !== null && (
+            <Button
+              onClick={handleLoadMoreResults}
+              variant="secondary"
+              size="md"
+              className="w-full"
+              disabled={loadingMore}
+            >
+              {loadingMore ? "Loading..." : "Load more"}
+            </Button>
+          )}
         </div>
       )}
     </Card>
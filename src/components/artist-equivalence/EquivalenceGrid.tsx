@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/card/Card";
+import { apiFetch } from "@/api-utils";
+import { formatGenreDisplay } from "@/lib/utils";
+
+interface EquivalenceGridProps {
+  artist: string;
+  genre: string;
+}
+
+interface MatrixColumn {
+  genre: string;
+  results: Array<{ artist: string; genre: string; score: number }>;
+}
+
+interface MatrixResponse {
+  artist?: string;
+  genre?: string;
+  columns?: MatrixColumn[];
+  error?: string;
+}
+
+/**
+ * The selected artist's equivalents in every other genre, one card per
+ * genre, from a single /api/equivalence-matrix call.
+ */
+export function EquivalenceGrid({ artist, genre }: EquivalenceGridProps) {
+  const [columns, setColumns] = useState<MatrixColumn[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setColumns([]);
+
+    apiFetch("/api/equivalence-matrix", {
+      method: "POST",
+      body: JSON.stringify({ sourceArtist: artist, sourceGenre: genre })
+    })
+      .then((res) => res.json() as Promise<MatrixResponse>)
+      .then((data) => {
+        if (cancelled) return;
+        if (data.error) {
+          setError(data.error);
+        } else {
+          setColumns(data.columns || []);
+        }
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error(`Error loading equivalents for ${artist}:`, err);
+        setError("Failed to load equivalents");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artist, genre]);
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold">{artist} in Every Genre</h3>
+      {loading && (
+        <p className="text-sm text-muted-foreground">Finding equivalents...</p>
+      )}
+      {error && <p className="text-sm text-muted-foreground">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {columns.map((column) => (
+          <Card
+            key={column.genre}
+            className="p-4 bg-neutral-100 dark:bg-neutral-900 space-y-2"
+          >
+            <h4 className="font-semibold">
+              {formatGenreDisplay(column.genre)}
+            </h4>
+            {column.results.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No matches.</p>
+            ) : (
+              <ul className="space-y-1">
+                {column.results.map((result) => (
+                  <li
+                    key={`${result.genre}:${result.artist}`}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <span>{result.artist}</span>
+                    <span className="font-mono text-muted-foreground">
+                      {(result.score * 100).toFixed(1)}%
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { apiFetch } from "@/api-utils";
+import { formatGenreDisplay } from "@/lib/utils";
+
+interface GenreFingerprintProps {
+  artist: string;
+  genre: string;
+}
+
+interface GenreScore {
+  genre: string;
+  similarity: number;
+  probability: number;
+}
+
+interface ClassifyResponse {
+  predictedGenre?: string | null;
+  mislabelled?: boolean;
+  distribution?: GenreScore[];
+  error?: string;
+}
+
+const SEGMENT_COLORS = [
+  "bg-[#F48120]",
+  "bg-sky-500",
+  "bg-emerald-500",
+  "bg-violet-500",
+  "bg-rose-500",
+  "bg-amber-400",
+  "bg-teal-500",
+  "bg-neutral-400"
+];
+
+// Genres below this share are too thin to label
+const MIN_LABELLED_PROBABILITY = 0.05;
+
+/**
+ * A stacked bar of how strongly an artist belongs to each genre, from the
+ * softmax over their similarity to every genre centroid.
+ */
+export function GenreFingerprint({ artist, genre }: GenreFingerprintProps) {
+  const [data, setData] = useState<ClassifyResponse | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+
+    apiFetch("/api/classify-genre", {
+      method: "POST",
+      body: JSON.stringify({ artist, genre })
+    })
+      .then((res) => res.json() as Promise<ClassifyResponse>)
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err) => {
+        if (!cancelled) console.error(`Error classifying ${artist}:`, err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [artist, genre]);
+
+  const distribution = data?.distribution ?? [];
+  if (distribution.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="text-xs font-medium text-muted-foreground">
+        Genre fingerprint
+      </div>
+      <div className="flex h-2 w-full rounded-full overflow-hidden bg-neutral-200 dark:bg-neutral-800">
+        {distribution.map((score, i) => (
+          <div
+            key={score.genre}
+            className={`h-full ${SEGMENT_COLORS[i % SEGMENT_COLORS.length]}`}
+            style={{ width: `${score.probability * 100}%` }}
+            title={`${formatGenreDisplay(score.genre)}: ${(score.probability * 100).toFixed(0)}%`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {distribution
+          .filter((score) => score.probability >= MIN_LABELLED_PROBABILITY)
+          .map((score) => (
+            <span key={score.genre} className="flex items-center gap-1">
+              <span
+                className={`inline-block w-2 h-2 rounded-full ${SEGMENT_COLORS[distribution.indexOf(score) % SEGMENT_COLORS.length]}`}
+              />
+              {formatGenreDisplay(score.genre)}{" "}
+              {(score.probability * 100).toFixed(0)}%
+            </span>
+          ))}
+      </div>
+      {data?.mislabelled && data.predictedGenre && (
+        <div className="text-xs text-amber-600 dark:text-amber-400">
+          Sounds closer to {formatGenreDisplay(data.predictedGenre)} than{" "}
+          {formatGenreDisplay(genre)}.
+        </div>
+      )}
+    </div>
+  );
+}
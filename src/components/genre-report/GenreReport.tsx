@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import { Label } from "@/components/label/Label";
+import { adminFetch, getAdminToken, setAdminToken } from "@/api-utils";
+import { formatGenreDisplay } from "@/lib/utils";
+
+interface MislabelledArtist {
+  artist: string;
+  genre: string;
+  predictedGenre: string;
+  margin: number;
+}
+
+interface ArtistTypicality {
+  artist: string;
+  genre: string;
+  distance: number;
+  zScore: number;
+  nearestGenre: string;
+}
+
+interface GenreTypicality {
+  genre: string;
+  artists: number;
+  meanDistance: number;
+  stdDistance: number;
+  mostTypical: ArtistTypicality[];
+  leastTypical: ArtistTypicality[];
+}
+
+interface MislabelledResponse {
+  scanned?: number;
+  mislabelled?: MislabelledArtist[];
+  error?: string;
+}
+
+interface TypicalityResponse {
+  scanned?: number;
+  genres?: GenreTypicality[];
+  error?: string;
+}
+
+function TypicalityList({
+  title,
+  artists
+}: {
+  title: string;
+  artists: ArtistTypicality[];
+}) {
+  return (
+    <Card className="p-4 bg-neutral-100 dark:bg-neutral-900 space-y-2">
+      <h4 className="font-semibold">{title}</h4>
+      <ul className="space-y-1">
+        {artists.map((a) => (
+          <li
+            key={`${a.genre}:${a.artist}`}
+            className="flex items-center justify-between text-sm"
+          >
+            <span>
+              {a.artist}
+              {a.nearestGenre !== a.genre && (
+                <span className="text-amber-600 dark:text-amber-400">
+                  {" "}
+                  · nearer {formatGenreDisplay(a.nearestGenre)}
+                </span>
+              )}
+            </span>
+            <span className="font-mono text-muted-foreground">
+              z = {a.zScore >= 0 ? "+" : ""}
+              {a.zScore.toFixed(2)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+}
+
+/**
+ * Admin report on how well artists fit their labelled genre: likely
+ * mislabels (closer to another genre's centroid) and, per genre, the most
+ * and least typical artists by z-scored centroid distance.
+ */
+export function GenreReport() {
+  const [token, setToken] = useState(() => getAdminToken() ?? "");
+  const [mislabelled, setMislabelled] = useState<MislabelledArtist[] | null>(
+    null
+  );
+  const [genres, setGenres] = useState<GenreTypicality[]>([]);
+  const [scanned, setScanned] = useState(0);
+  const [selectedGenre, setSelectedGenre] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleScan = async () => {
+    setAdminToken(token.trim());
+    setLoading(true);
+    setError(null);
+    try {
+      const [mislabelledResponse, typicalityResponse] = await Promise.all([
+        adminFetch("/api/admin/genres/mislabelled"),
+        adminFetch("/api/admin/genres/typicality")
+      ]);
+      const mislabelledData =
+        (await mislabelledResponse.json()) as MislabelledResponse;
+      const typicalityData =
+        (await typicalityResponse.json()) as TypicalityResponse;
+      if (!mislabelledResponse.ok || mislabelledData.error) {
+        throw new Error(
+          mislabelledData.error ||
+            `HTTP error! status: ${mislabelledResponse.status}`
+        );
+      }
+      if (!typicalityResponse.ok || typicalityData.error) {
+        throw new Error(
+          typicalityData.error ||
+            `HTTP error! status: ${typicalityResponse.status}`
+        );
+      }
+
+      const loaded = typicalityData.genres || [];
+      setMislabelled(mislabelledData.mislabelled || []);
+      setGenres(loaded);
+      setScanned(typicalityData.scanned ?? 0);
+      if (!loaded.some((g) => g.genre === selectedGenre)) {
+        setSelectedGenre(loaded[0]?.genre ?? "");
+      }
+    } catch (err) {
+      console.error("Error loading genre report:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const genre = genres.find((g) => g.genre === selectedGenre);
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Genre Report</h2>
+        <p className="text-sm text-muted-foreground">
+          Scans every artist vector against the genre centroids. Nothing is
+          changed; relabel artists through the admin API.
+        </p>
+      </div>
+
+      {error && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <strong className="font-bold">Error:</strong>
+          <span className="block sm:inline"> {error}</span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div>
+          <Label htmlFor="genre-report-token" title="Admin token" />
+          <input
+            id="genre-report-token"
+            type="password"
+            autoComplete="off"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            placeholder="The ADMIN_TOKEN secret"
+            className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+          />
+        </div>
+        <Button onClick={handleScan} disabled={loading} className="w-full">
+          {loading ? "Scanning..." : "Run Scan"}
+        </Button>
+      </div>
+
+      {mislabelled && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">
+            Likely Mislabels ({mislabelled.length} of {scanned})
+          </h3>
+          {mislabelled.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Every artist is closest to their own genre.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 font-medium">Artist</th>
+                  <th className="py-1 font-medium">Labelled</th>
+                  <th className="py-1 font-medium">Closer to</th>
+                  <th className="py-1 font-medium text-right">Margin</th>
+                </tr>
+              </thead>
+              <tbody>
+                {mislabelled.map((a) => (
+                  <tr
+                    key={`${a.genre}:${a.artist}`}
+                    className="border-t border-neutral-200 dark:border-neutral-800"
+                  >
+                    <td className="py-1">{a.artist}</td>
+                    <td className="py-1">{formatGenreDisplay(a.genre)}</td>
+                    <td className="py-1">
+                      {formatGenreDisplay(a.predictedGenre)}
+                    </td>
+                    <td className="py-1 text-right font-mono">
+                      {a.margin.toFixed(3)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {genres.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold">Typicality</h3>
+          <div>
+            <Label htmlFor="genre-report-genre" title="Genre" />
+            <select
+              id="genre-report-genre"
+              value={selectedGenre}
+              onChange={(e) => setSelectedGenre(e.target.value)}
+              className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+            >
+              {genres.map((g) => (
+                <option key={g.genre} value={g.genre}>
+                  {formatGenreDisplay(g.genre)} ({g.artists})
+                </option>
+              ))}
+            </select>
+          </div>
+          {genre && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Mean distance to the centroid{" "}
+                <span className="font-mono">
+                  {genre.meanDistance.toFixed(3)}
+                </span>{" "}
+                ±{" "}
+                <span className="font-mono">
+                  {genre.stdDistance.toFixed(3)}
+                </span>
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <TypicalityList
+                  title="Most typical"
+                  artists={genre.mostTypical}
+                />
+                <TypicalityList
+                  title="Biggest outliers"
+                  artists={genre.leastTypical}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
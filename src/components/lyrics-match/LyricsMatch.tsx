@@ -0,0 +1,213 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import { Label } from "@/components/label/Label";
+import { Textarea } from "@/components/textarea/Textarea";
+import { apiFetch } from "@/api-utils";
+import { formatGenreDisplay } from "@/lib/utils";
+
+interface MatchedArtist {
+  artist: string;
+  genre: string;
+  score: number;
+}
+
+interface LyricsMatchResponse {
+  predictedGenre?: string | null;
+  genreScores?: Array<{ genre: string; score: number }>;
+  overall?: MatchedArtist[];
+  byGenre?: Array<{ genre: string; results: MatchedArtist[] }>;
+  analogy?: {
+    sourceGenre: string;
+    targetGenre: string;
+    results: MatchedArtist[];
+  } | null;
+  error?: string;
+}
+
+const MAX_LYRICS_LENGTH = 2000;
+
+function ArtistList({ results }: { results: MatchedArtist[] }) {
+  if (results.length === 0) {
+    return <p className="text-sm text-muted-foreground">No matches.</p>;
+  }
+  return (
+    <ul className="space-y-1">
+      {results.map((result) => (
+        <li
+          key={`${result.genre}:${result.artist}`}
+          className="flex items-center justify-between text-sm"
+        >
+          <span>
+            {result.artist}
+            <span className="text-muted-foreground">
+              {" "}
+              · {formatGenreDisplay(result.genre)}
+            </span>
+          </span>
+          <span className="font-mono text-muted-foreground">
+            {(result.score * 100).toFixed(1)}%
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Paste-your-lyrics mode: finds the artists closest to the user's own text,
+ * and optionally who they would be in another genre. Nothing is stored.
+ */
+export function LyricsMatch() {
+  const [lyrics, setLyrics] = useState("");
+  const [genres, setGenres] = useState<string[]>([]);
+  const [targetGenre, setTargetGenre] = useState("");
+  const [match, setMatch] = useState<LyricsMatchResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch("/api/artists?limit=1")
+      .then((res) => res.json() as Promise<{ genres?: string[] }>)
+      .then((data) =>
+        setGenres(
+          (data.genres || []).filter((genre) => genre.toLowerCase() !== "misc")
+        )
+      )
+      .catch((err) => console.error("Error fetching genres:", err));
+  }, []);
+
+  const handleMatch = async () => {
+    setLoading(true);
+    setError(null);
+    setMatch(null);
+    try {
+      const response = await apiFetch("/api/match-lyrics", {
+        method: "POST",
+        body: JSON.stringify({
+          lyrics,
+          targetGenre: targetGenre || undefined
+        })
+      });
+      const data = (await response.json()) as LyricsMatchResponse;
+      if (!response.ok || data.error) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setMatch(data);
+    } catch (err) {
+      console.error("Error matching lyrics:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Match Your Lyrics</h2>
+        <p className="text-sm text-muted-foreground">
+          Paste your own lyrics to see which artists you sound closest to. Your
+          text is only used for this search and is never saved.
+        </p>
+      </div>
+
+      {error && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <strong className="font-bold">Error:</strong>
+          <span className="block sm:inline"> {error}</span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div>
+          <Label htmlFor="lyrics-match-text" title="Lyrics" />
+          <Textarea
+            id="lyrics-match-text"
+            value={lyrics}
+            maxLength={MAX_LYRICS_LENGTH}
+            rows={8}
+            onChange={(e) => setLyrics(e.target.value)}
+            placeholder="Paste a verse, a chorus, or a whole song..."
+          />
+          <div className="text-xs text-muted-foreground text-right">
+            {lyrics.length}/{MAX_LYRICS_LENGTH}
+          </div>
+        </div>
+
+        <div>
+          <Label
+            htmlFor="lyrics-match-genre"
+            title="Who would I be in... (optional)"
+          />
+          <select
+            id="lyrics-match-genre"
+            value={targetGenre}
+            onChange={(e) => setTargetGenre(e.target.value)}
+            className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+          >
+            <option value="">Any genre</option>
+            {genres.map((genre) => (
+              <option key={genre} value={genre}>
+                {formatGenreDisplay(genre)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <Button
+          onClick={handleMatch}
+          disabled={!lyrics.trim() || loading}
+          className="w-full"
+        >
+          {loading ? "Matching..." : "Match Lyrics"}
+        </Button>
+      </div>
+
+      {match && (
+        <div className="space-y-4">
+          {match.predictedGenre && (
+            <p className="text-sm">
+              Your lyrics sound most like{" "}
+              <span className="font-semibold">
+                {formatGenreDisplay(match.predictedGenre)}
+              </span>
+              .
+            </p>
+          )}
+
+          {match.analogy && (
+            <Card className="p-4 bg-neutral-100 dark:bg-neutral-900 space-y-2">
+              <h3 className="font-semibold">
+                You in {formatGenreDisplay(match.analogy.targetGenre)}
+              </h3>
+              <ArtistList results={match.analogy.results} />
+            </Card>
+          )}
+
+          <Card className="p-4 bg-neutral-100 dark:bg-neutral-900 space-y-2">
+            <h3 className="font-semibold">Closest artists overall</h3>
+            <ArtistList results={match.overall || []} />
+          </Card>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(match.byGenre || []).map((group) => (
+              <Card
+                key={group.genre}
+                className="p-4 bg-neutral-100 dark:bg-neutral-900 space-y-2"
+              >
+                <h3 className="font-semibold">
+                  {formatGenreDisplay(group.genre)}
+                </h3>
+                <ArtistList results={group.results} />
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,263 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/button/Button";
+import { Card } from "@/components/card/Card";
+import { Label } from "@/components/label/Label";
+import { apiFetch } from "@/api-utils";
+import { formatGenreDisplay } from "@/lib/utils";
+
+interface Artist {
+  name: string;
+  genre: string;
+}
+
+interface SimilarResult {
+  artist: string;
+  genre: string;
+  score: number;
+}
+
+interface SimilarResponse {
+  results?: SimilarResult[];
+  nextOffset?: number | null;
+  error?: string;
+}
+
+const RESULT_PAGE_SIZE = 5;
+const SUGGESTION_LIMIT = 8;
+
+/**
+ * "More like this": the nearest neighbours of an artist, within their own
+ * genre or across all of them, with no genre shift.
+ */
+export function SimilarArtists() {
+  const [search, setSearch] = useState("");
+  const [suggestions, setSuggestions] = useState<Artist[]>([]);
+  const [selected, setSelected] = useState<Artist | null>(null);
+  const [sameGenre, setSameGenre] = useState(true);
+  const [searched, setSearched] = useState<{
+    artist: Artist;
+    sameGenre: boolean;
+  } | null>(null);
+  const [results, setResults] = useState<SimilarResult[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!search.trim() || (selected && search === selected.name)) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({
+        q: search.trim(),
+        limit: String(SUGGESTION_LIMIT)
+      });
+      apiFetch(`/api/artists?${params.toString()}`)
+        .then((res) => res.json() as Promise<{ artists?: Artist[] }>)
+        .then((data) => {
+          if (!cancelled) setSuggestions(data.artists || []);
+        })
+        .catch((err) => {
+          if (!cancelled) console.error("Error fetching artists:", err);
+        });
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search, selected]);
+
+  const fetchSimilar = async (
+    artist: Artist,
+    onlySameGenre: boolean,
+    offset: number
+  ): Promise<SimilarResponse> => {
+    const response = await apiFetch("/api/find-similar", {
+      method: "POST",
+      body: JSON.stringify({
+        artist: artist.name,
+        genre: artist.genre,
+        sameGenre: onlySameGenre,
+        limit: RESULT_PAGE_SIZE,
+        offset
+      })
+    });
+
+    const data = (await response.json()) as SimilarResponse;
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    }
+    return data;
+  };
+
+  const handleSearch = async () => {
+    if (!selected) return;
+
+    setLoading(true);
+    setError(null);
+    setResults([]);
+    setNextOffset(null);
+    try {
+      const data = await fetchSimilar(selected, sameGenre, 0);
+      if (!data.results || data.results.length === 0) {
+        setError("No similar artists found.");
+      }
+      setResults(data.results || []);
+      setNextOffset(data.nextOffset ?? null);
+      setSearched({ artist: selected, sameGenre });
+    } catch (err) {
+      console.error("Error finding similar artists:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (nextOffset === null || !searched) return;
+
+    setLoading(true);
+    try {
+      const data = await fetchSimilar(
+        searched.artist,
+        searched.sameGenre,
+        nextOffset
+      );
+      setResults((prev) => [...prev, ...(data.results || [])]);
+      setNextOffset(data.nextOffset ?? null);
+    } catch (err) {
+      console.error("Error loading more similar artists:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold mb-4">More Like This</h2>
+        <p className="text-sm text-muted-foreground">
+          Find the artists closest to one you already like, without leaving
+          their genre.
+        </p>
+      </div>
+
+      {error && (
+        <div
+          className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative"
+          role="alert"
+        >
+          <strong className="font-bold">Error:</strong>
+          <span className="block sm:inline"> {error}</span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div className="relative">
+          <Label htmlFor="similar-artist-search" title="Artist" />
+          <input
+            id="similar-artist-search"
+            type="text"
+            autoComplete="off"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setSelected(null);
+            }}
+            placeholder="Search artists..."
+            className="w-full add-size-base btn btn-secondary border border-ob-border focus:border-ob-border-active focus:outline-none px-3 rounded-md"
+          />
+          {suggestions.length > 0 && (
+            <div className="absolute z-10 w-full mt-1 bg-white dark:bg-neutral-900 border border-neutral-300 dark:border-neutral-700 rounded-md shadow-lg max-h-60 overflow-auto">
+              {suggestions.map((artist) => (
+                <button
+                  key={`${artist.genre}:${artist.name}`}
+                  type="button"
+                  onClick={() => {
+                    setSelected(artist);
+                    setSearch(artist.name);
+                    setSuggestions([]);
+                  }}
+                  className="w-full text-left px-4 py-2 hover:bg-neutral-100 dark:hover:bg-neutral-800"
+                >
+                  <div className="font-medium">{artist.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatGenreDisplay(artist.genre)}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+          {selected && (
+            <div className="mt-2 text-sm text-muted-foreground">
+              Selected: <span className="font-medium">{selected.name}</span>
+              <span className="ml-2">
+                ({formatGenreDisplay(selected.genre)})
+              </span>
+            </div>
+          )}
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={sameGenre}
+            onChange={(e) => setSameGenre(e.target.checked)}
+          />
+          Same genre only
+        </label>
+
+        <Button
+          onClick={handleSearch}
+          disabled={!selected || loading}
+          className="w-full"
+        >
+          {loading ? "Searching..." : "Find Similar"}
+        </Button>
+      </div>
+
+      {results.length > 0 && searched && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold">
+            Most Like {searched.artist.name}
+          </h3>
+          {results.map((result) => (
+            <Card
+              key={`${result.genre}:${result.artist}`}
+              className="p-4 bg-neutral-100 dark:bg-neutral-900"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="font-semibold text-lg">{result.artist}</div>
+                  <div className="text-sm text-muted-foreground">
+                    {formatGenreDisplay(result.genre)}
+                  </div>
+                </div>
+                <div className="text-sm font-mono text-muted-foreground">
+                  Similarity: {(result.score * 100).toFixed(1)}%
+                </div>
+              </div>
+            </Card>
+          ))}
+
+          {nextOffset !== null && (
+            <Button
+              onClick={handleLoadMore}
+              variant="secondary"
+              size="md"
+              className="w-full"
+              disabled={loading}
+            >
+              {loading ? "Loading..." : "Load more"}
+            </Button>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,636 @@
+import { DurableObject } from "cloudflare:workers";
+import type { ArtistDocument } from "./document-store";
+
+/** Columns of the raw song dataset; other columns are ignored */
+const REQUIRED_COLUMNS = ["title", "tag", "artist", "year", "views", "lyrics"];
+
+/**
+ * Imports only ever write under this prefix. The live document store and the
+ * vectors are updated by running the migrate and ingest routes on the output.
+ */
+export const IMPORT_STAGING_PREFIX = "imports/";
+export const DEFAULT_IMPORT_OUTPUT_KEY = `${IMPORT_STAGING_PREFIX}artist_documents.json`;
+
+/** Bytes of CSV read per alarm; a single row must fit in one slice */
+const DEFAULT_SLICE_BYTES = 4 * 1024 * 1024;
+const CURSOR_KEY = "cursor";
+
+export interface SongRow {
+  title: string;
+  genre: string;
+  artist: string;
+  year: string;
+  views: number;
+  features: string;
+  lyrics: string;
+}
+
+export interface CsvImportOptions {
+  /** CSV object in R2 with the title,tag,artist,year,views,features,lyrics,id schema */
+  objectKey: string;
+  /** Top G genres by cumulative song views */
+  genres?: number;
+  /** Top A artists per genre by cumulative song views */
+  artistsPerGenre?: number;
+  /** Top S songs per artist by song views */
+  songsPerArtist?: number;
+  /** Lyrics longer than this are cut off in the document */
+  maxLyricsLength?: number;
+  /** Staging key (under imports/) for the combined { artists: [...] } file */
+  outputKey?: string;
+  /** Rank and report without writing anything */
+  dryRun?: boolean;
+  sliceBytes?: number;
+  restart?: boolean;
+}
+
+export interface CsvImportReport {
+  rows: number;
+  skippedRows: number;
+  genres: Array<{ genre: string; views: number; artists: number }>;
+  documents: number;
+  outputKey: string | null;
+}
+
+export interface CsvImportCursor {
+  objectKey: string;
+  status: "running" | "done";
+  /** Pass 1 totals views, pass 2 collects the selected artists' top songs */
+  pass: 1 | 2;
+  /** Byte offset of the next unread row */
+  byteOffset: number;
+  totalBytes: number;
+  /** Byte offset of the first row after the header */
+  dataOffset: number;
+  /** Header name to column index, read at the start of pass 1 */
+  columns: Record<string, number> | null;
+  genres: number;
+  artistsPerGenre: number;
+  songsPerArtist: number;
+  maxLyricsLength: number;
+  sliceBytes: number;
+  /** null for a dry run */
+  outputKey: string | null;
+  rows: number;
+  skippedRows: number;
+  /** Set once the run is done */
+  report?: CsvImportReport;
+  startedAt: string;
+  updatedAt: string;
+  lastError?: string;
+}
+
+interface CsvRecord {
+  row: string[];
+  /** Byte offset just past the row, relative to the start of the stream */
+  end: number;
+  /** False for a trailing row with no line break, which may be cut off */
+  complete: boolean;
+}
+
+/** UTF-8 length of one UTF-16 code unit; each half of a surrogate pair is 2 */
+function utf8Length(code: number): number {
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code >= 0xd800 && code <= 0xdfff) return 2;
+  return 3;
+}
+
+/**
+ * Streams RFC 4180 rows out of a byte stream along with the byte offset each
+ * row ends at, so a read can resume at a row boundary. Quoted fields may
+ * contain commas, doubled quotes and newlines, which the lyrics column
+ * relies on.
+ */
+async function* parseCsvRecords(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<CsvRecord> {
+  const reader = stream.getReader();
+  // Keep a byte order mark as a character so the byte offsets stay exact
+  const decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  // A quote inside a quoted field: either an escaped quote or the closing one
+  let pendingQuote = false;
+  let sawAnything = false;
+  let offset = 0;
+
+  try {
+    while (true) {
+      const { done, value: bytes } = await reader.read();
+      // The final decode() flushes a character split across the last chunk
+      const value = done
+        ? decoder.decode()
+        : decoder.decode(bytes, { stream: true });
+
+      for (let i = 0; i < value.length; i++) {
+        const char = value[i];
+        offset += utf8Length(value.charCodeAt(i));
+        sawAnything = true;
+
+        if (pendingQuote) {
+          pendingQuote = false;
+          if (char === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+        }
+
+        if (inQuotes) {
+          if (char === '"') {
+            pendingQuote = true;
+          } else {
+            field += char;
+          }
+          continue;
+        }
+
+        if (char === '"' && field === "") {
+          inQuotes = true;
+        } else if (char === ",") {
+          row.push(field);
+          field = "";
+        } else if (char === "\n") {
+          row.push(field.endsWith("\r") ? field.slice(0, -1) : field);
+          yield { row, end: offset, complete: true };
+          row = [];
+          field = "";
+          sawAnything = false;
+        } else {
+          field += char;
+        }
+      }
+
+      if (done) break;
+    }
+
+    if (sawAnything) {
+      row.push(field.endsWith("\r") ? field.slice(0, -1) : field);
+      yield { row, end: offset, complete: false };
+    }
+  } finally {
+    // Callers stop early at a cut-off row; drop the rest of the body
+    await reader.cancel();
+  }
+}
+
+/**
+ * Streams RFC 4180 rows out of a byte stream. Quoted fields may contain
+ * commas, doubled quotes and newlines, which the lyrics column relies on.
+ */
+export async function* parseCsv(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<string[]> {
+  for await (const record of parseCsvRecords(stream)) {
+    yield record.row;
+  }
+}
+
+function readColumns(header: string[]): Record<string, number> {
+  const columns = Object.fromEntries(
+    header.map((name, i) => [name.trim().toLowerCase(), i])
+  );
+  const missing = REQUIRED_COLUMNS.filter((c) => !(c in columns));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(", ")}`);
+  }
+  return columns;
+}
+
+function toSongRow(
+  row: string[],
+  columns: Record<string, number>
+): SongRow | null {
+  const get = (name: string) => row[columns[name] ?? -1] ?? "";
+  const genre = get("tag").trim();
+  const artist = get("artist").trim();
+  const views = Number(get("views"));
+  if (!genre || !artist || !Number.isFinite(views)) {
+    return null;
+  }
+
+  return {
+    title: get("title").trim(),
+    genre,
+    artist,
+    year: get("year").trim(),
+    views,
+    features: get("features").trim(),
+    lyrics: get("lyrics").trim()
+  };
+}
+
+function selectionKey(genre: string, artist: string): string {
+  return `${genre}\u0000${artist}`;
+}
+
+/** Builds the text document that gets embedded for one artist */
+export function buildArtistDocument(
+  artist: string,
+  genre: string,
+  songs: SongRow[],
+  maxLyricsLength: number
+): string {
+  const sections = songs.map((song) => {
+    const lyrics =
+      song.lyrics.length > maxLyricsLength
+        ? `${song.lyrics.slice(0, maxLyricsLength)}...`
+        : song.lyrics;
+    const header = song.year ? `${song.title} (${song.year})` : song.title;
+    const features =
+      song.features && song.features !== "{}"
+        ? `\nFeaturing: ${song.features.replace(/[{}"]/g, "")}`
+        : "";
+    return `Song: ${header}${features}\n${lyrics}`;
+  });
+
+  return `Artist: ${artist}\nGenre: ${genre}\n\n${sections.join("\n\n")}`;
+}
+
+/**
+ * Rebuilds the artist corpus from the raw song CSV in two passes over the
+ * file: the first totals views per genre and artist, the second keeps the
+ * top songs for the selected artists. Each alarm reads one byte slice of the
+ * CSV, and the running totals live in SQLite next to the cursor, so a failed
+ * slice is retried by the runtime from the last saved row boundary.
+ */
+export class CsvImport extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.ctx.storage.sql.exec(`
+      CREATE TABLE IF NOT EXISTS artist_views (
+        genre TEXT NOT NULL,
+        artist TEXT NOT NULL,
+        views REAL NOT NULL,
+        PRIMARY KEY (genre, artist)
+      );
+      CREATE TABLE IF NOT EXISTS selected_artists (
+        genre TEXT NOT NULL,
+        artist TEXT NOT NULL,
+        rank INTEGER NOT NULL,
+        PRIMARY KEY (genre, artist)
+      );
+      CREATE TABLE IF NOT EXISTS songs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        genre TEXT NOT NULL,
+        artist TEXT NOT NULL,
+        title TEXT NOT NULL,
+        year TEXT NOT NULL,
+        views REAL NOT NULL,
+        features TEXT NOT NULL,
+        lyrics TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS songs_by_artist ON songs (genre, artist);
+    `);
+  }
+
+  async start(options: CsvImportOptions): Promise<CsvImportCursor> {
+    const existing = await this.ctx.storage.get<CsvImportCursor>(CURSOR_KEY);
+
+    if (
+      existing &&
+      existing.status === "running" &&
+      existing.objectKey === options.objectKey &&
+      !options.restart
+    ) {
+      console.log(
+        `Resuming CSV import of ${existing.objectKey} at pass ${existing.pass}, byte ${existing.byteOffset}/${existing.totalBytes}`
+      );
+      await this.ctx.storage.setAlarm(Date.now());
+      return existing;
+    }
+
+    const head = await this.env.ARTIST_DOCUMENTS.head(options.objectKey);
+    if (!head) {
+      throw new Error(`Object ${options.objectKey} not found in R2`);
+    }
+
+    this.clearTables();
+    const now = new Date().toISOString();
+    const cursor: CsvImportCursor = {
+      objectKey: options.objectKey,
+      status: "running",
+      pass: 1,
+      byteOffset: 0,
+      totalBytes: head.size,
+      dataOffset: 0,
+      columns: null,
+      genres: options.genres ?? 6,
+      artistsPerGenre: options.artistsPerGenre ?? 100,
+      songsPerArtist: options.songsPerArtist ?? 5,
+      maxLyricsLength: options.maxLyricsLength ?? 2000,
+      sliceBytes: options.sliceBytes || DEFAULT_SLICE_BYTES,
+      outputKey: options.dryRun
+        ? null
+        : (options.outputKey ?? DEFAULT_IMPORT_OUTPUT_KEY),
+      rows: 0,
+      skippedRows: 0,
+      startedAt: now,
+      updatedAt: now
+    };
+
+    await this.ctx.storage.put(CURSOR_KEY, cursor);
+    await this.ctx.storage.setAlarm(Date.now());
+
+    console.log(
+      `Started CSV import of ${cursor.objectKey} (${cursor.totalBytes} bytes)`
+    );
+    return cursor;
+  }
+
+  async getStatus(): Promise<CsvImportCursor | null> {
+    return (await this.ctx.storage.get<CsvImportCursor>(CURSOR_KEY)) ?? null;
+  }
+
+  async alarm() {
+    const cursor = await this.ctx.storage.get<CsvImportCursor>(CURSOR_KEY);
+    if (!cursor || cursor.status !== "running") {
+      return;
+    }
+
+    try {
+      await this.processSlice(cursor);
+    } catch (error) {
+      console.error(
+        `CSV import pass ${cursor.pass} at byte ${cursor.byteOffset} failed:`,
+        error
+      );
+      cursor.lastError = error instanceof Error ? error.message : String(error);
+      cursor.updatedAt = new Date().toISOString();
+      await this.ctx.storage.put(CURSOR_KEY, cursor);
+      // Rethrow so the runtime retries the alarm from the saved cursor
+      throw error;
+    }
+
+    if (cursor.status === "running") {
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+  }
+
+  private async processSlice(cursor: CsvImportCursor) {
+    const length = Math.min(
+      cursor.sliceBytes,
+      cursor.totalBytes - cursor.byteOffset
+    );
+    const lastSlice = cursor.byteOffset + length >= cursor.totalBytes;
+    const object =
+      length > 0
+        ? await this.env.ARTIST_DOCUMENTS.get(cursor.objectKey, {
+            range: { offset: cursor.byteOffset, length }
+          })
+        : null;
+    if (length > 0 && !object) {
+      throw new Error(`Object ${cursor.objectKey} not found in R2`);
+    }
+
+    const songs: SongRow[] = [];
+    let skippedRows = 0;
+    let consumed = 0;
+    let columns = cursor.columns;
+    let dataOffset = cursor.dataOffset;
+
+    if (object) {
+      for await (const record of parseCsvRecords(object.body)) {
+        // The slice may end mid-row; the next slice starts at that row
+        if (!record.complete && !lastSlice) break;
+        consumed = record.end;
+
+        if (!columns) {
+          columns = readColumns(record.row);
+          dataOffset = cursor.byteOffset + record.end;
+          continue;
+        }
+
+        const song = toSongRow(record.row, columns);
+        if (song) {
+          songs.push(song);
+        } else {
+          skippedRows++;
+        }
+      }
+    }
+
+    if (consumed === 0 && !lastSlice) {
+      throw new Error(
+        `CSV row at byte ${cursor.byteOffset} is longer than the ${cursor.sliceBytes}-byte slice`
+      );
+    }
+
+    const selected = cursor.pass === 2 ? this.selectedArtists() : null;
+
+    // No await between the table writes and the cursor put, so the runtime
+    // commits them together and a retried slice is never counted twice
+    if (cursor.pass === 1) {
+      this.addViews(songs);
+      cursor.rows += songs.length;
+      cursor.skippedRows += skippedRows;
+    } else {
+      this.addSongs(
+        songs.filter((s) => selected!.has(selectionKey(s.genre, s.artist))),
+        cursor.songsPerArtist
+      );
+    }
+    cursor.columns = columns;
+    cursor.dataOffset = dataOffset;
+    cursor.byteOffset += consumed;
+    cursor.updatedAt = new Date().toISOString();
+    delete cursor.lastError;
+
+    if (cursor.pass === 1 && cursor.byteOffset >= cursor.totalBytes) {
+      console.log(
+        `CSV import pass 1: ${cursor.rows} rows, ${cursor.skippedRows} skipped`
+      );
+      this.selectArtists(cursor.genres, cursor.artistsPerGenre);
+      cursor.pass = 2;
+      cursor.byteOffset = cursor.dataOffset;
+    }
+
+    await this.ctx.storage.put(CURSOR_KEY, cursor);
+    console.log(
+      `CSV import pass ${cursor.pass}: byte ${cursor.byteOffset}/${cursor.totalBytes}`
+    );
+
+    // Saved first, so a retried finish reads an empty slice and adds nothing
+    if (cursor.pass === 2 && cursor.byteOffset >= cursor.totalBytes) {
+      await this.finish(cursor);
+    }
+  }
+
+  private addViews(songs: SongRow[]) {
+    for (const song of songs) {
+      this.ctx.storage.sql.exec(
+        `INSERT INTO artist_views (genre, artist, views) VALUES (?, ?, ?)
+         ON CONFLICT (genre, artist) DO UPDATE SET views = views + excluded.views`,
+        song.genre,
+        song.artist,
+        song.views
+      );
+    }
+  }
+
+  /** Marks the top artists of the top genres by cumulative views */
+  private selectArtists(genreLimit: number, artistLimit: number) {
+    const genres = this.ctx.storage.sql
+      .exec<{ genre: string }>(
+        `SELECT genre FROM artist_views GROUP BY genre
+         ORDER BY SUM(views) DESC, genre LIMIT ?`,
+        genreLimit
+      )
+      .toArray();
+
+    let rank = 0;
+    for (const { genre } of genres) {
+      const artists = this.ctx.storage.sql
+        .exec<{ artist: string }>(
+          `SELECT artist FROM artist_views WHERE genre = ?
+           ORDER BY views DESC, artist LIMIT ?`,
+          genre,
+          artistLimit
+        )
+        .toArray();
+      for (const { artist } of artists) {
+        this.ctx.storage.sql.exec(
+          "INSERT INTO selected_artists (genre, artist, rank) VALUES (?, ?, ?)",
+          genre,
+          artist,
+          rank++
+        );
+      }
+    }
+  }
+
+  private selectedArtists(): Set<string> {
+    return new Set(
+      this.ctx.storage.sql
+        .exec<{ genre: string; artist: string }>(
+          "SELECT genre, artist FROM selected_artists"
+        )
+        .toArray()
+        .map((a) => selectionKey(a.genre, a.artist))
+    );
+  }
+
+  /** Adds songs and trims each touched artist back to its top songs */
+  private addSongs(songs: SongRow[], songLimit: number) {
+    const touched = new Map<string, SongRow>();
+    for (const song of songs) {
+      this.ctx.storage.sql.exec(
+        `INSERT INTO songs (genre, artist, title, year, views, features, lyrics)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        song.genre,
+        song.artist,
+        song.title,
+        song.year,
+        song.views,
+        song.features,
+        song.lyrics
+      );
+      touched.set(selectionKey(song.genre, song.artist), song);
+    }
+
+    for (const { genre, artist } of touched.values()) {
+      this.ctx.storage.sql.exec(
+        `DELETE FROM songs WHERE genre = ? AND artist = ? AND id NOT IN (
+           SELECT id FROM songs WHERE genre = ? AND artist = ?
+           ORDER BY views DESC, id LIMIT ?
+         )`,
+        genre,
+        artist,
+        genre,
+        artist,
+        songLimit
+      );
+    }
+  }
+
+  private async finish(cursor: CsvImportCursor) {
+    const genreViews = this.ctx.storage.sql
+      .exec<{ genre: string; views: number }>(
+        `SELECT v.genre AS genre, SUM(v.views) AS views
+         FROM artist_views v
+         WHERE v.genre IN (SELECT genre FROM selected_artists)
+         GROUP BY v.genre
+         ORDER BY (SELECT MIN(rank) FROM selected_artists s WHERE s.genre = v.genre)`
+      )
+      .toArray();
+    const selected = this.ctx.storage.sql
+      .exec<{
+        genre: string;
+        artist: string;
+      }>("SELECT genre, artist FROM selected_artists ORDER BY rank")
+      .toArray();
+
+    const documents: ArtistDocument[] = [];
+    for (const { genre, artist } of selected) {
+      const songs = this.ctx.storage.sql
+        .exec<{
+          title: string;
+          year: string;
+          views: number;
+          features: string;
+          lyrics: string;
+        }>(
+          `SELECT title, year, views, features, lyrics FROM songs
+           WHERE genre = ? AND artist = ? ORDER BY views DESC, id`,
+          genre,
+          artist
+        )
+        .toArray()
+        .map((s) => ({ ...s, genre, artist }));
+      documents.push({
+        genre,
+        artist,
+        document: buildArtistDocument(
+          artist,
+          genre,
+          songs,
+          cursor.maxLyricsLength
+        )
+      });
+    }
+
+    const report: CsvImportReport = {
+      rows: cursor.rows,
+      skippedRows: cursor.skippedRows,
+      genres: genreViews.map(({ genre, views }) => ({
+        genre,
+        views,
+        artists: documents.filter((d) => d.genre === genre).length
+      })),
+      documents: documents.length,
+      outputKey: null
+    };
+
+    if (cursor.outputKey) {
+      await this.env.ARTIST_DOCUMENTS.put(
+        cursor.outputKey,
+        JSON.stringify({ artists: documents }),
+        { httpMetadata: { contentType: "application/json" } }
+      );
+      report.outputKey = cursor.outputKey;
+      console.log(
+        `CSV import wrote ${documents.length} artist documents to ${cursor.outputKey}`
+      );
+    }
+
+    this.clearTables();
+    cursor.report = report;
+    cursor.status = "done";
+    cursor.updatedAt = new Date().toISOString();
+    await this.ctx.storage.put(CURSOR_KEY, cursor);
+  }
+
+  private clearTables() {
+    this.ctx.storage.sql.exec(`
+      DELETE FROM artist_views;
+      DELETE FROM selected_artists;
+      DELETE FROM songs;
+    `);
+  }
+}
+
+export function getCsvImportStub(env: Env) {
+  return env.CsvImport.get(env.CsvImport.idFromName("default"));
+}
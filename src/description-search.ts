@@ -0,0 +1,75 @@
+import { embedDocument } from "./embeddings";
+import {
+  type EquivalentArtistPage,
+  MAX_QUERY_TOP_K,
+  withArtistNames
+} from "./vector-utils";
+
+/**
+ * bge models are trained with this instruction on short retrieval queries;
+ * documents are embedded without it.
+ */
+const QUERY_INSTRUCTION =
+  "Represent this sentence for searching relevant passages: ";
+
+export interface DescriptionSearchOptions {
+  /** Only return artists in this genre */
+  genre?: string;
+  /** Ranked results to skip, for paging */
+  offset?: number;
+  /** Drop results scoring below this */
+  minScore?: number;
+}
+
+/**
+ * Finds artists matching a free-text description, e.g. "a moody storytelling
+ * artist who sings about small towns". The query is embedded with the same
+ * model as the artist documents, so no seed artist is needed.
+ */
+export async function searchArtistsByDescription(
+  ai: Ai,
+  vectorize: VectorizeIndex,
+  query: string,
+  topK: number = 3,
+  options: DescriptionSearchOptions = {}
+): Promise<EquivalentArtistPage> {
+  const description = query.trim();
+  if (!description) {
+    throw new Error("Description must not be empty");
+  }
+
+  const embedded = await embedDocument(ai, QUERY_INSTRUCTION + description, {
+    retries: 1
+  });
+  if (!embedded.embedding) {
+    throw new Error(`Failed to embed description: ${embedded.reason}`);
+  }
+
+  const offset = Math.max(options.offset ?? 0, 0);
+  const minScore = options.minScore ?? Number.NEGATIVE_INFINITY;
+  const pageEnd = offset + topK;
+
+  const queryResult = await vectorize.query(embedded.embedding, {
+    topK: Math.min(pageEnd + 1, MAX_QUERY_TOP_K),
+    filter: options.genre
+      ? { type: "artist", genre: options.genre }
+      : { type: "artist" },
+    returnMetadata: "none",
+    returnValues: false
+  });
+  const matches = queryResult.matches.filter(
+    (match) => match.score >= minScore
+  );
+  console.log(
+    `Description search returned ${matches.length} matches${options.genre ? ` in ${options.genre}` : ""}`
+  );
+
+  return {
+    results: await withArtistNames(
+      vectorize,
+      matches.slice(offset, pageEnd),
+      options.genre ?? ""
+    ),
+    nextOffset: matches.length > pageEnd ? pageEnd : null
+  };
+}
@@ -0,0 +1,302 @@
+export interface ArtistDocument {
+  genre: string;
+  artist: string;
+  document: string;
+}
+
+export interface ManifestEntry {
+  genre: string;
+  artist: string;
+  key: string;
+  size: number;
+}
+
+export interface DocumentManifest {
+  version: 1;
+  updatedAt: string;
+  artists: Record<string, ManifestEntry>;
+}
+
+export const LEGACY_DOCUMENTS_KEY = "artist_documents.json";
+const MANIFEST_KEY = "artists/manifest.json";
+const MANIFEST_TTL_MS = 60_000;
+// Documents edited from another isolate show up after at most this long
+const DOCUMENT_TTL_MS = 60_000;
+const DOCUMENT_CACHE_SIZE = 200;
+const MANIFEST_WRITE_ATTEMPTS = 5;
+
+// In-isolate caches, shared by every request served from this isolate
+let manifestCache: {
+  manifest: DocumentManifest | null;
+  loadedAt: number;
+} | null = null;
+const documentCache = new Map<
+  string,
+  { doc: ArtistDocument; loadedAt: number }
+>();
+
+export function normalizeKeyPart(value: string): string {
+  return value.normalize("NFC").trim().toLowerCase();
+}
+
+export function manifestKey(genre: string, artist: string): string {
+  return `${normalizeKeyPart(genre)}|${normalizeKeyPart(artist)}`;
+}
+
+function documentObjectKey(genre: string, artist: string): string {
+  return `artists/${encodeURIComponent(normalizeKeyPart(genre))}/${encodeURIComponent(normalizeKeyPart(artist))}.json`;
+}
+
+function cacheDocument(key: string, doc: ArtistDocument) {
+  documentCache.delete(key);
+  documentCache.set(key, { doc, loadedAt: Date.now() });
+  if (documentCache.size > DOCUMENT_CACHE_SIZE) {
+    const oldest = documentCache.keys().next().value;
+    if (oldest !== undefined) {
+      documentCache.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Reads the original single-file dataset ({ artists: [...] }). Only the
+ * migration and the ingestion pipeline should need this.
+ */
+export async function loadDocumentsBlob(
+  bucket: R2Bucket,
+  objectKey: string = LEGACY_DOCUMENTS_KEY
+): Promise<ArtistDocument[]> {
+  const r2Object = await bucket.get(objectKey);
+  if (!r2Object) {
+    throw new Error(`Object ${objectKey} not found in R2`);
+  }
+
+  const documentsData = (await r2Object.json()) as {
+    artists?: ArtistDocument[];
+  };
+  return documentsData.artists || [];
+}
+
+export async function getManifest(
+  bucket: R2Bucket
+): Promise<DocumentManifest | null> {
+  if (manifestCache && Date.now() - manifestCache.loadedAt < MANIFEST_TTL_MS) {
+    return manifestCache.manifest;
+  }
+
+  const r2Object = await bucket.get(MANIFEST_KEY);
+  const manifest = r2Object
+    ? ((await r2Object.json()) as DocumentManifest)
+    : null;
+  manifestCache = { manifest, loadedAt: Date.now() };
+  return manifest;
+}
+
+/** Checks R2 directly, so a manifest written by another isolate counts */
+export async function hasManifest(bucket: R2Bucket): Promise<boolean> {
+  return (await bucket.head(MANIFEST_KEY)) !== null;
+}
+
+/**
+ * Applies a change to the manifest. It is always re-read from R2 rather
+ * than the isolate cache, and only written back if its etag hasn't moved,
+ * so writers in other isolates retry instead of dropping each other's
+ * entries.
+ */
+async function updateManifest(
+  bucket: R2Bucket,
+  update: (manifest: DocumentManifest) => void,
+  options: { create?: boolean } = {}
+): Promise<DocumentManifest> {
+  for (let attempt = 1; attempt <= MANIFEST_WRITE_ATTEMPTS; attempt++) {
+    const current = await bucket.get(MANIFEST_KEY);
+    if (!current && !options.create) {
+      throw new Error(
+        "Document manifest not found; run /api/admin/documents/migrate first"
+      );
+    }
+    const manifest: DocumentManifest = current
+      ? ((await current.json()) as DocumentManifest)
+      : { version: 1, updatedAt: new Date().toISOString(), artists: {} };
+
+    update(manifest);
+    manifest.updatedAt = new Date().toISOString();
+    const written = await bucket.put(MANIFEST_KEY, JSON.stringify(manifest), {
+      httpMetadata: { contentType: "application/json" },
+      onlyIf: current ? { etagMatches: current.etag } : undefined
+    });
+    if (written) {
+      manifestCache = { manifest, loadedAt: Date.now() };
+      return manifest;
+    }
+    console.warn(
+      `Manifest changed while updating it (attempt ${attempt}), retrying`
+    );
+  }
+
+  throw new Error(
+    `Manifest kept changing; gave up after ${MANIFEST_WRITE_ATTEMPTS} attempts`
+  );
+}
+
+/**
+ * Lists every artist in the store. Falls back to the legacy blob when the
+ * per-artist migration hasn't been run yet.
+ */
+export async function listArtistDocuments(
+  bucket: R2Bucket
+): Promise<Array<{ genre: string; artist: string }>> {
+  const manifest = await getManifest(bucket);
+  if (manifest) {
+    return Object.values(manifest.artists).map(({ genre, artist }) => ({
+      genre,
+      artist
+    }));
+  }
+
+  console.warn("Document manifest not found, listing from legacy blob");
+  const documents = await loadDocumentsBlob(bucket);
+  return documents.map(({ genre, artist }) => ({ genre, artist }));
+}
+
+/**
+ * Looks up a single artist's document by genre and name (case-insensitive).
+ */
+export async function getArtistDocument(
+  bucket: R2Bucket,
+  genre: string,
+  artist: string
+): Promise<ArtistDocument | null> {
+  const key = manifestKey(genre, artist);
+  const cached = documentCache.get(key);
+  if (cached && Date.now() - cached.loadedAt < DOCUMENT_TTL_MS) {
+    return cached.doc;
+  }
+
+  const manifest = await getManifest(bucket);
+  if (!manifest) {
+    console.warn("Document manifest not found, reading legacy blob");
+    const documents = await loadDocumentsBlob(bucket).catch(() => []);
+    const doc = documents.find((d) => manifestKey(d.genre, d.artist) === key);
+    if (doc) {
+      cacheDocument(key, doc);
+    }
+    return doc ?? null;
+  }
+
+  const entry = manifest.artists[key];
+  if (!entry) {
+    return null;
+  }
+
+  const r2Object = await bucket.get(entry.key);
+  if (!r2Object) {
+    console.warn(`Manifest entry ${key} points at missing object ${entry.key}`);
+    return null;
+  }
+
+  const doc = (await r2Object.json()) as ArtistDocument;
+  cacheDocument(key, doc);
+  return doc;
+}
+
+/**
+ * Writes artist documents and adds them to the manifest. Without a
+ * manifest, readers fall back to the legacy blob, so a manifest holding
+ * only these documents would hide every other artist. Unless
+ * createManifest is set (the migration), this refuses to write until the
+ * blob has been migrated.
+ */
+export async function putArtistDocuments(
+  bucket: R2Bucket,
+  documents: ArtistDocument[],
+  options: { createManifest?: boolean } = {}
+): Promise<DocumentManifest> {
+  if (!options.createManifest && !(await hasManifest(bucket))) {
+    throw new Error(
+      "Document manifest not found; run /api/admin/documents/migrate first"
+    );
+  }
+
+  const entries: Array<[string, ManifestEntry]> = [];
+  for (const doc of documents) {
+    const key = manifestKey(doc.genre, doc.artist);
+    const objectKey = documentObjectKey(doc.genre, doc.artist);
+    const body = JSON.stringify(doc);
+
+    await bucket.put(objectKey, body, {
+      httpMetadata: { contentType: "application/json" }
+    });
+    entries.push([
+      key,
+      {
+        genre: doc.genre,
+        artist: doc.artist,
+        key: objectKey,
+        size: body.length
+      }
+    ]);
+    cacheDocument(key, doc);
+  }
+
+  return updateManifest(
+    bucket,
+    (manifest) => {
+      for (const [key, entry] of entries) {
+        manifest.artists[key] = entry;
+      }
+    },
+    { create: options.createManifest }
+  );
+}
+
+/**
+ * Removes an artist's object and manifest entry. Returns false when the
+ * artist isn't in the manifest.
+ */
+export async function deleteArtistDocument(
+  bucket: R2Bucket,
+  genre: string,
+  artist: string
+): Promise<boolean> {
+  const key = manifestKey(genre, artist);
+  documentCache.delete(key);
+  if (!(await hasManifest(bucket))) {
+    return false;
+  }
+
+  let removed: ManifestEntry | undefined;
+  await updateManifest(bucket, (manifest) => {
+    removed = manifest.artists[key];
+    delete manifest.artists[key];
+  });
+  if (!removed) {
+    return false;
+  }
+
+  await bucket.delete(removed.key);
+  return true;
+}
+
+/**
+ * Splits the legacy artist_documents.json blob into one object per artist
+ * and writes the manifest. Safe to re-run; existing entries are overwritten.
+ */
+export async function migrateDocumentsBlob(
+  bucket: R2Bucket,
+  objectKey: string = LEGACY_DOCUMENTS_KEY
+): Promise<{
+  migrated: number;
+  skipped: Array<{ genre: string; artist: string }>;
+}> {
+  const documents = await loadDocumentsBlob(bucket, objectKey);
+  const valid = documents.filter((d) => d.genre && d.artist);
+  const skipped = documents
+    .filter((d) => !d.genre || !d.artist)
+    .map(({ genre, artist }) => ({ genre, artist }));
+
+  await putArtistDocuments(bucket, valid, { createManifest: true });
+  console.log(`Migrated ${valid.length} artist documents from ${objectKey}`);
+
+  return { migrated: valid.length, skipped };
+}
@@ -0,0 +1,175 @@
+export const EMBEDDING_MODEL = "@cf/baai/bge-large-en-v1.5";
+export const EMBEDDING_DIMENSIONS = 1024;
+
+/**
+ * Pulls a single embedding out of a Workers AI response. The bge models have
+ * returned a few different shapes over time ({ data: [[...]] }, { data: Float32Array },
+ * a bare array, or { shape, data }), so all of them are handled here.
+ */
+export function extractEmbedding(response: unknown): number[] | null {
+  if (!response || typeof response !== "object") {
+    return null;
+  }
+  const data = "data" in response ? response.data : undefined;
+
+  if (
+    "shape" in response &&
+    response.shape &&
+    data &&
+    !(Array.isArray(data) && Array.isArray(data[0]))
+  ) {
+    const dims =
+      (Array.isArray(response.shape) && Number(response.shape[1])) ||
+      EMBEDDING_DIMENSIONS;
+    if (data instanceof Float32Array) {
+      return Array.from(data.slice(0, dims));
+    }
+    if (Array.isArray(data)) {
+      return data.slice(0, dims).map((v: unknown) => Number(v));
+    }
+  }
+
+  const candidate = data ?? response;
+  if (candidate instanceof Float32Array) {
+    return Array.from(candidate);
+  }
+
+  if (Array.isArray(candidate)) {
+    const firstItem = candidate[0];
+    if (firstItem instanceof Float32Array) {
+      return Array.from(firstItem);
+    }
+    if (Array.isArray(firstItem)) {
+      return firstItem.map((v: unknown) => Number(v));
+    }
+  }
+
+  return null;
+}
+
+export interface EmbeddingFailure {
+  reason: string;
+  attempts: number;
+}
+
+export interface EmbedOptions {
+  timeoutMs?: number;
+  /** Extra attempts after the first one fails */
+  retries?: number;
+  /** Delay before the first retry; doubled for each one after that */
+  backoffMs?: number;
+}
+
+/**
+ * Returns why an embedding can't be stored, or null when it's usable. Zero
+ * and non-finite vectors would otherwise end up in centroids and rankings.
+ */
+export function embeddingProblem(embedding: number[]): string | null {
+  if (embedding.length !== EMBEDDING_DIMENSIONS) {
+    return `unexpected dimensions (${embedding.length})`;
+  }
+
+  let sumSquares = 0;
+  for (const value of embedding) {
+    if (!Number.isFinite(value)) {
+      return "non-finite values";
+    }
+    sumSquares += value * value;
+  }
+  if (Math.sqrt(sumSquares) < 1e-6) {
+    return "zero vector";
+  }
+
+  return null;
+}
+
+async function embedOnce(
+  ai: Ai,
+  text: string,
+  timeoutMs: number
+): Promise<number[]> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const embeddingPromise = ai.run(EMBEDDING_MODEL, { text });
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`timed out after ${timeoutMs}ms`)),
+        timeoutMs
+      );
+    });
+
+    const response = await Promise.race([embeddingPromise, timeoutPromise]);
+    const embedding = extractEmbedding(response);
+
+    if (!embedding || embedding.length === 0) {
+      console.error(
+        "Failed to extract embedding. Response keys:",
+        Object.keys(response ?? {})
+      );
+      throw new Error("unrecognised response shape");
+    }
+
+    const problem = embeddingProblem(embedding);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    return embedding;
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Embeds a document for storage, retrying with exponential backoff. Never
+ * returns a padded, truncated or zero vector: anything unusable comes back
+ * as a failure with the reason from the last attempt.
+ */
+export async function embedDocument(
+  ai: Ai,
+  text: string,
+  options: EmbedOptions = {}
+): Promise<{ embedding: number[] } | ({ embedding: null } & EmbeddingFailure)> {
+  const { timeoutMs = 20000, retries = 2, backoffMs = 500 } = options;
+
+  if (!text.trim()) {
+    return { embedding: null, reason: "empty document", attempts: 0 };
+  }
+
+  let reason = "unknown error";
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    try {
+      return { embedding: await embedOnce(ai, text, timeoutMs) };
+    } catch (error) {
+      reason = error instanceof Error ? error.message : String(error);
+      console.warn(`Embedding attempt ${attempt} failed: ${reason}`);
+      if (attempt <= retries) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, backoffMs * 2 ** (attempt - 1))
+        );
+      }
+    }
+  }
+
+  return { embedding: null, reason, attempts: retries + 1 };
+}
+
+/**
+ * Embeds a piece of text with the same model used for the artist documents.
+ * Returns null when the model times out or the response can't be parsed.
+ */
+export async function embedText(
+  ai: Ai,
+  text: string,
+  timeoutMs: number = 20000
+): Promise<number[] | null> {
+  try {
+    return await embedOnce(ai, text, timeoutMs);
+  } catch (error) {
+    console.error("Error generating embedding:", error);
+    return null;
+  }
+}
@@ -0,0 +1,81 @@
+import { loadGenreCentroids } from "./genre-classifier";
+import {
+  type ArtistResult,
+  getArtistVector,
+  MAX_QUERY_TOP_K,
+  vectorArithmetic,
+  withArtistNames
+} from "./vector-utils";
+
+export interface EquivalenceMatrixOptions {
+  /** Results per target genre */
+  topK?: number;
+  /** Only these target genres (defaults to every other genre) */
+  genres?: string[];
+}
+
+export interface EquivalenceMatrix {
+  artist: string;
+  genre: string;
+  columns: Array<{ genre: string; results: ArtistResult[] }>;
+}
+
+/**
+ * An artist's equivalents in every other genre at once. The source vector
+ * and the centroids are loaded a single time and then one filtered query
+ * runs per target genre, instead of a find-equivalent round trip each.
+ */
+export async function findEquivalenceMatrix(
+  env: Env,
+  artist: string,
+  genre: string,
+  options: EquivalenceMatrixOptions = {}
+): Promise<EquivalenceMatrix> {
+  const topK = Math.min(options.topK ?? 3, MAX_QUERY_TOP_K);
+  const vectorize = env.ARTIST_EMBEDDINGS;
+
+  const [artistVector, centroids] = await Promise.all([
+    getArtistVector(vectorize, artist, genre),
+    loadGenreCentroids(env)
+  ]);
+  if (!artistVector) {
+    throw new Error(`Artist ${artist} not found in genre ${genre}`);
+  }
+
+  const sourceCentroid = centroids.find((c) => c.genre === genre);
+  if (!sourceCentroid) {
+    throw new Error(`Average vector not found for source genre ${genre}`);
+  }
+
+  const targets = centroids.filter(
+    (c) =>
+      c.genre !== genre && (!options.genres || options.genres.includes(c.genre))
+  );
+
+  const columns = await Promise.all(
+    targets.map(async (target) => {
+      const queryResult = await vectorize.query(
+        vectorArithmetic(artistVector, sourceCentroid.vector, target.vector),
+        {
+          topK,
+          filter: { type: "artist", genre: target.genre },
+          returnMetadata: "none",
+          returnValues: false
+        }
+      );
+      return {
+        genre: target.genre,
+        results: await withArtistNames(
+          vectorize,
+          queryResult.matches,
+          target.genre
+        )
+      };
+    })
+  );
+  console.log(
+    `Equivalence matrix for ${artist} (${genre}) covers ${columns.length} genres`
+  );
+
+  return { artist, genre, columns };
+}
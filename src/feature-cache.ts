@@ -0,0 +1,110 @@
+import { getArtistDocument, normalizeKeyPart } from "./document-store";
+import {
+  type ArtistFeatures,
+  extractArtistFeatures
+} from "./feature-extractor";
+
+interface CachedFeatures {
+  /** SHA-256 of the document the features were extracted from */
+  documentHash: string;
+  features: ArtistFeatures;
+  extractedAt: string;
+}
+
+const FEATURE_CACHE_SIZE = 200;
+
+// In-isolate copy of the R2 cache, keyed by object key
+const featureCache = new Map<string, CachedFeatures>();
+
+function featureObjectKey(genre: string, artist: string): string {
+  return `features/${encodeURIComponent(normalizeKeyPart(genre))}/${encodeURIComponent(normalizeKeyPart(artist))}.json`;
+}
+
+async function hashDocument(document: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(document)
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+function rememberFeatures(key: string, entry: CachedFeatures) {
+  featureCache.delete(key);
+  featureCache.set(key, entry);
+  if (featureCache.size > FEATURE_CACHE_SIZE) {
+    const oldest = featureCache.keys().next().value;
+    if (oldest !== undefined) {
+      featureCache.delete(oldest);
+    }
+  }
+}
+
+// extractArtistFeatures falls back to empty features when the model fails;
+// those shouldn't be cached or the artist would never be retried
+function isFallback(features: ArtistFeatures): boolean {
+  return (
+    features.themes.length === 0 &&
+    Object.keys(features.musicalCharacteristics).length === 0
+  );
+}
+
+/**
+ * Returns an artist's extracted features, running the LLM only when the
+ * artist has no cached features or their document changed since. Cached
+ * features live in R2 next to the documents, under features/.
+ */
+export async function getArtistFeatures(
+  env: Env,
+  genre: string,
+  artist: string,
+  displayName: string = artist
+): Promise<ArtistFeatures | null> {
+  const doc = await getArtistDocument(env.ARTIST_DOCUMENTS, genre, artist);
+  if (!doc) {
+    return null;
+  }
+
+  const key = featureObjectKey(genre, artist);
+  const documentHash = await hashDocument(doc.document);
+
+  let cached = featureCache.get(key);
+  if (!cached) {
+    const r2Object = await env.ARTIST_DOCUMENTS.get(key);
+    cached = r2Object ? ((await r2Object.json()) as CachedFeatures) : undefined;
+  }
+  if (cached?.documentHash === documentHash) {
+    rememberFeatures(key, cached);
+    return cached.features;
+  }
+
+  const features = await extractArtistFeatures(
+    env.AI,
+    doc.document,
+    displayName,
+    genre
+  );
+  if (!isFallback(features)) {
+    const entry: CachedFeatures = {
+      documentHash,
+      features,
+      extractedAt: new Date().toISOString()
+    };
+    await env.ARTIST_DOCUMENTS.put(key, JSON.stringify(entry), {
+      httpMetadata: { contentType: "application/json" }
+    });
+    rememberFeatures(key, entry);
+  }
+  return features;
+}
+
+export async function deleteArtistFeatures(
+  env: Env,
+  genre: string,
+  artist: string
+): Promise<void> {
+  const key = featureObjectKey(genre, artist);
+  featureCache.delete(key);
+  await env.ARTIST_DOCUMENTS.delete(key);
+}
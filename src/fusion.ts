@@ -0,0 +1,149 @@
+import {
+  type ArtistResult,
+  cosineSimilarity,
+  getAverageGenreVector,
+  getVectorsByIds,
+  MAX_QUERY_TOP_K,
+  normalizeVector,
+  toNumberArray
+} from "./vector-utils";
+
+export interface FusionGenre {
+  genre: string;
+  /** Relative weight; defaults to 1. Weights are normalized to sum to 1. */
+  weight?: number;
+}
+
+export interface CentroidSimilarity {
+  genre: string;
+  /** Normalized weight the centroid was mixed with */
+  weight: number;
+  /** Cosine similarity between the result and this genre's centroid */
+  similarity: number;
+}
+
+export interface FusionResult extends ArtistResult {
+  centroids: CentroidSimilarity[];
+  /**
+   * Lowest centroid similarity over the highest, so 1 means the artist is
+   * equally close to every genre in the mix
+   */
+  balance: number;
+}
+
+export interface FusionOptions {
+  offset?: number;
+  minScore?: number;
+}
+
+/**
+ * Finds crossover artists for a weighted mix of genre centroids, e.g.
+ * country + rap. Results can come from any genre. Centroids are normalized
+ * before mixing so a genre with a larger centroid doesn't outweigh the
+ * weights it was given.
+ */
+export async function findGenreFusion(
+  vectorize: VectorizeIndex,
+  genres: FusionGenre[],
+  topK: number = 3,
+  options: FusionOptions = {}
+): Promise<{ results: FusionResult[]; nextOffset: number | null }> {
+  if (genres.length < 2) {
+    throw new Error("A fusion needs at least two genres");
+  }
+  if (new Set(genres.map((g) => g.genre)).size !== genres.length) {
+    throw new Error("Fusion genres must be distinct");
+  }
+  if (genres.some((g) => (g.weight ?? 1) < 0)) {
+    throw new Error("Fusion weights must not be negative");
+  }
+  const totalWeight = genres.reduce((sum, g) => sum + (g.weight ?? 1), 0);
+  if (totalWeight <= 0) {
+    throw new Error("At least one fusion weight must be positive");
+  }
+
+  const centroids = await Promise.all(
+    genres.map(async (g) => {
+      const vector = await getAverageGenreVector(vectorize, g.genre);
+      if (!vector) {
+        throw new Error(`Average vector not found for genre ${g.genre}`);
+      }
+      return {
+        genre: g.genre,
+        weight: (g.weight ?? 1) / totalWeight,
+        vector
+      };
+    })
+  );
+
+  const mix = new Array(centroids[0].vector.length).fill(0);
+  for (const centroid of centroids) {
+    const unit = normalizeVector(centroid.vector);
+    for (let i = 0; i < mix.length; i++) {
+      mix[i] += centroid.weight * unit[i];
+    }
+  }
+
+  const offset = Math.max(options.offset ?? 0, 0);
+  const minScore = options.minScore ?? Number.NEGATIVE_INFINITY;
+  const pageEnd = offset + topK;
+
+  const queryResult = await vectorize.query(mix, {
+    topK: Math.min(pageEnd + 1, MAX_QUERY_TOP_K),
+    filter: { type: "artist" },
+    returnMetadata: "none",
+    returnValues: false
+  });
+  const matches = queryResult.matches.filter(
+    (match) => match.score >= minScore
+  );
+  console.log(
+    `Fusion of ${genres.map((g) => g.genre).join(" + ")} returned ${matches.length} matches`
+  );
+
+  const page = matches.slice(offset, pageEnd);
+  const vectors = new Map(
+    (
+      await getVectorsByIds(
+        vectorize,
+        page.map((m) => m.id)
+      )
+    ).map((v) => [v.id, v])
+  );
+
+  const results: FusionResult[] = [];
+  for (const match of page) {
+    const vector = vectors.get(match.id);
+    const metadata = (vector?.metadata ?? {}) as {
+      genre?: string;
+      artist?: string;
+    };
+    if (!vector || !metadata.artist) {
+      continue;
+    }
+
+    const values = toNumberArray(vector.values);
+    const similarities = centroids.map((centroid) =>
+      cosineSimilarity(centroid.vector, values)
+    );
+    const highest = Math.max(...similarities);
+
+    results.push({
+      artist: metadata.artist,
+      genre: metadata.genre || "",
+      score: match.score,
+      centroids: centroids.map((centroid, i) => ({
+        genre: centroid.genre,
+        weight: centroid.weight,
+        similarity: similarities[i]
+      })),
+      balance:
+        highest > 0 ? Math.max(Math.min(...similarities), 0) / highest : 0
+    });
+  }
+
+  return {
+    results,
+    nextOffset: matches.length > pageEnd ? pageEnd : null
+  };
+}
@@ -0,0 +1,320 @@
+import { type CatalogArtist, getCatalogStub } from "./catalog";
+import { embedDocument } from "./embeddings";
+import {
+  cosineSimilarity,
+  getArtistVector,
+  getArtistVectors,
+  getAverageGenreVector
+} from "./vector-utils";
+
+/**
+ * Cosine similarities to the centroids sit in a narrow band, so softmax
+ * needs a low temperature to produce a distribution that isn't flat.
+ */
+export const DEFAULT_GENRE_TEMPERATURE = 0.05;
+
+export interface GenreCentroid {
+  genre: string;
+  vector: number[];
+}
+
+export interface GenreScore {
+  genre: string;
+  similarity: number;
+  /** Softmax of the similarities; sums to 1 across genres */
+  probability: number;
+}
+
+export interface ArtistGenreClassification {
+  artist: string;
+  genre: string;
+  predictedGenre: string | null;
+  /** True when the nearest centroid isn't the artist's labelled genre */
+  mislabelled: boolean;
+  distribution: GenreScore[];
+}
+
+export interface MislabelledArtist {
+  artist: string;
+  genre: string;
+  predictedGenre: string;
+  /** Similarity to the predicted centroid minus similarity to the labelled one */
+  margin: number;
+}
+
+export interface MislabelledReport {
+  scanned: number;
+  mislabelled: MislabelledArtist[];
+  scannedAt: string;
+}
+
+export interface ArtistTypicality {
+  artist: string;
+  genre: string;
+  /** Cosine distance to the labelled genre's centroid */
+  distance: number;
+  /**
+   * Standard deviations from the genre's mean distance. Negative is more
+   * typical than average, positive is an outlier.
+   */
+  zScore: number;
+  /** Nearest centroid of any genre */
+  nearestGenre: string;
+}
+
+export interface GenreTypicality {
+  genre: string;
+  artists: number;
+  meanDistance: number;
+  stdDistance: number;
+  /** Closest to the centroid first */
+  mostTypical: ArtistTypicality[];
+  /** Furthest from the centroid first */
+  leastTypical: ArtistTypicality[];
+}
+
+export interface TypicalityReport {
+  scanned: number;
+  genres: GenreTypicality[];
+  scannedAt: string;
+}
+
+const BATCH_SIZE = 20;
+const DEFAULT_TYPICALITY_LIMIT = 10;
+
+/** Centroids for every genre in the catalog, skipping ones not computed yet */
+export async function loadGenreCentroids(
+  env: Env,
+  genres?: string[]
+): Promise<GenreCentroid[]> {
+  const names =
+    genres ??
+    (await getCatalogStub(env).listGenres()).map(({ genre }) => genre);
+  const centroids = await Promise.all(
+    names.map(async (genre) => ({
+      genre,
+      vector: await getAverageGenreVector(env.ARTIST_EMBEDDINGS, genre)
+    }))
+  );
+  return centroids.filter((c): c is GenreCentroid => c.vector !== null);
+}
+
+/**
+ * Ranks genres by cosine similarity to a vector, best first, with a
+ * softmax distribution over the similarities.
+ */
+export function rankGenres(
+  vector: number[],
+  centroids: GenreCentroid[],
+  temperature: number = DEFAULT_GENRE_TEMPERATURE
+): GenreScore[] {
+  if (!(temperature > 0)) {
+    throw new Error("Temperature must be positive");
+  }
+  if (centroids.length === 0) {
+    return [];
+  }
+
+  const similarities = centroids.map((c) => cosineSimilarity(vector, c.vector));
+  // Subtract the max before exponentiating so small temperatures can't overflow
+  const max = Math.max(...similarities);
+  const weights = similarities.map((s) => Math.exp((s - max) / temperature));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  return centroids
+    .map((c, i) => ({
+      genre: c.genre,
+      similarity: similarities[i],
+      probability: weights[i] / total
+    }))
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/** Classifies a stored artist and checks the result against their label */
+export async function classifyArtist(
+  env: Env,
+  artist: string,
+  genre: string,
+  options: { temperature?: number } = {}
+): Promise<ArtistGenreClassification> {
+  const vector = await getArtistVector(env.ARTIST_EMBEDDINGS, artist, genre);
+  if (!vector) {
+    throw new Error(`Artist ${artist} not found in genre ${genre}`);
+  }
+
+  const distribution = rankGenres(
+    vector,
+    await loadGenreCentroids(env),
+    options.temperature
+  );
+  const predictedGenre = distribution[0]?.genre ?? null;
+  return {
+    artist,
+    genre,
+    predictedGenre,
+    mislabelled: predictedGenre !== null && predictedGenre !== genre,
+    distribution
+  };
+}
+
+/** Embeds a piece of text and ranks genres against it. Nothing is stored. */
+export async function classifyText(
+  env: Env,
+  text: string,
+  options: { temperature?: number } = {}
+): Promise<{ predictedGenre: string | null; distribution: GenreScore[] }> {
+  if (!text.trim()) {
+    throw new Error("Text must not be empty");
+  }
+
+  const embedded = await embedDocument(env.AI, text.trim(), { retries: 1 });
+  if (!embedded.embedding) {
+    throw new Error(`Failed to embed text: ${embedded.reason}`);
+  }
+
+  const distribution = rankGenres(
+    embedded.embedding,
+    await loadGenreCentroids(env),
+    options.temperature
+  );
+  return { predictedGenre: distribution[0]?.genre ?? null, distribution };
+}
+
+/** Every catalogued artist, or just those in one genre */
+async function listCatalogArtists(
+  env: Env,
+  genre?: string
+): Promise<CatalogArtist[]> {
+  const catalog = getCatalogStub(env);
+  const resolved = genre ? await catalog.resolveGenre(genre) : null;
+  return (await catalog.allArtists()).filter(
+    (a) => !genre || a.genre === resolved
+  );
+}
+
+/**
+ * Artist vectors for catalog entries, fetched in batches. Artists without a
+ * stored vector are skipped.
+ */
+async function* loadArtistVectors(
+  env: Env,
+  artists: CatalogArtist[]
+): AsyncGenerator<{ artist: string; genre: string; vector: number[] }> {
+  for (let i = 0; i < artists.length; i += BATCH_SIZE) {
+    const batch = await getArtistVectors(
+      env.ARTIST_EMBEDDINGS,
+      artists
+        .slice(i, i + BATCH_SIZE)
+        .map((a) => ({ genre: a.genre, artist: a.name, vectorId: a.vectorId }))
+    );
+
+    for (const { artist, genre, values } of batch) {
+      if (values) {
+        yield { artist, genre, vector: values };
+      }
+    }
+  }
+}
+
+/**
+ * Lists catalogued artists whose nearest centroid isn't their labelled
+ * genre. Read-only: relabel them through the admin API if they're wrong.
+ */
+export async function findMislabelledArtists(
+  env: Env,
+  options: { genre?: string } = {}
+): Promise<MislabelledReport> {
+  const artists = await listCatalogArtists(env, options.genre);
+  const centroids = await loadGenreCentroids(env);
+
+  const report: MislabelledReport = {
+    scanned: 0,
+    mislabelled: [],
+    scannedAt: new Date().toISOString()
+  };
+
+  for await (const entry of loadArtistVectors(env, artists)) {
+    report.scanned++;
+    const ranked = rankGenres(entry.vector, centroids);
+    const labelled = ranked.find((g) => g.genre === entry.genre);
+    if (ranked[0] && labelled && ranked[0].genre !== entry.genre) {
+      report.mislabelled.push({
+        artist: entry.artist,
+        genre: entry.genre,
+        predictedGenre: ranked[0].genre,
+        margin: ranked[0].similarity - labelled.similarity
+      });
+    }
+  }
+
+  report.mislabelled.sort((a, b) => b.margin - a.margin);
+  console.log(
+    `Genre check: ${report.mislabelled.length} of ${report.scanned} artists are closer to another genre`
+  );
+  return report;
+}
+
+/**
+ * Ranks each genre's artists by cosine distance to their own centroid, with
+ * z-scores against the genre's distance distribution. Read-only, like
+ * findMislabelledArtists, and it scans the same way.
+ */
+export async function findGenreTypicality(
+  env: Env,
+  options: { genre?: string; limit?: number } = {}
+): Promise<TypicalityReport> {
+  const artists = await listCatalogArtists(env, options.genre);
+  const centroids = await loadGenreCentroids(env);
+  const centroidsByGenre = new Map(centroids.map((c) => [c.genre, c.vector]));
+  const limit = Math.max(options.limit ?? DEFAULT_TYPICALITY_LIMIT, 1);
+
+  const byGenre = new Map<string, Omit<ArtistTypicality, "zScore">[]>();
+  let scanned = 0;
+  for await (const entry of loadArtistVectors(env, artists)) {
+    const own = centroidsByGenre.get(entry.genre);
+    if (!own) {
+      continue;
+    }
+
+    scanned++;
+    const ranked = rankGenres(entry.vector, centroids);
+    const group = byGenre.get(entry.genre) ?? [];
+    group.push({
+      artist: entry.artist,
+      genre: entry.genre,
+      distance: 1 - cosineSimilarity(entry.vector, own),
+      nearestGenre: ranked[0]?.genre ?? entry.genre
+    });
+    byGenre.set(entry.genre, group);
+  }
+
+  const genres: GenreTypicality[] = [];
+  for (const [name, group] of byGenre) {
+    const mean = group.reduce((sum, a) => sum + a.distance, 0) / group.length;
+    const std = Math.sqrt(
+      group.reduce((sum, a) => sum + (a.distance - mean) ** 2, 0) / group.length
+    );
+    const ranked = group
+      .map((a) => ({
+        ...a,
+        // A genre whose artists are all equidistant has no outliers
+        zScore: std > 0 ? (a.distance - mean) / std : 0
+      }))
+      .sort((a, b) => a.distance - b.distance);
+
+    genres.push({
+      genre: name,
+      artists: group.length,
+      meanDistance: mean,
+      stdDistance: std,
+      mostTypical: ranked.slice(0, limit),
+      leastTypical: ranked.slice(-limit).reverse()
+    });
+  }
+  genres.sort((a, b) => a.genre.localeCompare(b.genre));
+
+  console.log(
+    `Typicality: scanned ${scanned} artists across ${genres.length} genres`
+  );
+  return { scanned, genres, scannedAt: new Date().toISOString() };
+}
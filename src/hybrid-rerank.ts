@@ -0,0 +1,86 @@
+import {
+  type SimilarityBreakdown,
+  scoreArtistSimilarity
+} from "./comparison-engine";
+import { getArtistFeatures } from "./feature-cache";
+import type { ArtistResult } from "./vector-utils";
+
+/** Candidates pulled from Vectorize and scored with the comparison engine */
+export const MAX_HYBRID_POOL = 20;
+
+export interface HybridResult extends ArtistResult {
+  /** The raw Vectorize cosine score; `score` holds the blended one */
+  vectorScore: number;
+  /** 1-based position in the Vectorize order */
+  originalRank: number;
+  /** 1-based position after re-ranking */
+  rank: number;
+  breakdown: SimilarityBreakdown | null;
+}
+
+/**
+ * Re-orders vector search candidates by the comparison engine's blended
+ * similarity (50% vector, 20% theme, 15% musical, 15% lyrical). Candidates
+ * without cached features keep their vector score, which isn't on the same
+ * scale as a blended one, so they are ranked after every re-ranked
+ * candidate, in their vector order.
+ */
+export async function rerankByFeatures(
+  env: Env,
+  source: { artist: string; genre: string; displayName?: string },
+  candidates: ArtistResult[]
+): Promise<HybridResult[]> {
+  const sourceFeatures = await getArtistFeatures(
+    env,
+    source.genre,
+    source.artist,
+    source.displayName
+  );
+  if (!sourceFeatures) {
+    throw new Error(
+      `Document not found for ${source.artist} in genre ${source.genre}`
+    );
+  }
+
+  const scored = await Promise.all(
+    candidates.slice(0, MAX_HYBRID_POOL).map(async (candidate, i) => {
+      let breakdown: SimilarityBreakdown | null = null;
+      try {
+        const targetFeatures = await getArtistFeatures(
+          env,
+          candidate.genre,
+          candidate.artist
+        );
+        if (targetFeatures) {
+          breakdown = scoreArtistSimilarity(
+            sourceFeatures,
+            targetFeatures,
+            candidate.score
+          );
+        }
+      } catch (error) {
+        console.error(`Error scoring ${candidate.artist}:`, error);
+      }
+
+      return {
+        ...candidate,
+        score: breakdown?.overallSimilarity ?? candidate.score,
+        vectorScore: candidate.score,
+        originalRank: i + 1,
+        rank: 0,
+        breakdown
+      };
+    })
+  );
+
+  scored.sort(
+    (a, b) =>
+      Number(b.breakdown !== null) - Number(a.breakdown !== null) ||
+      b.score - a.score ||
+      a.originalRank - b.originalRank
+  );
+  scored.forEach((result, i) => {
+    result.rank = i + 1;
+  });
+  return scored;
+}
@@ -0,0 +1,249 @@
+import { DurableObject } from "cloudflare:workers";
+import { getCatalogStub } from "./catalog";
+import {
+  type ArtistDocument,
+  LEGACY_DOCUMENTS_KEY,
+  loadDocumentsBlob
+} from "./document-store";
+import { embedDocument } from "./embeddings";
+import { embedSongChunks } from "./song-chunks";
+import { artistVectorId } from "./vector-utils";
+
+export interface IngestionSkip {
+  index: number;
+  genre: string;
+  artist: string;
+  reason: string;
+  /** Embedding attempts made before the item was skipped */
+  attempts?: number;
+  /** Set when only one song chunk was skipped, not the whole artist */
+  chunk?: number;
+}
+
+export interface IngestionCursor {
+  objectKey: string;
+  status: "running" | "done";
+  nextIndex: number;
+  total: number;
+  batchSize: number;
+  /** Whether song chunk vectors are embedded alongside artist vectors */
+  songChunks: boolean;
+  upserted: number;
+  songChunksUpserted: number;
+  skipped: IngestionSkip[];
+  startedAt: string;
+  updatedAt: string;
+  lastError?: string;
+}
+
+export interface IngestionOptions {
+  objectKey?: string;
+  batchSize?: number;
+  /** Defaults to true */
+  songChunks?: boolean;
+  restart?: boolean;
+}
+
+const CURSOR_KEY = "cursor";
+
+function runKey(cursor: IngestionCursor): string {
+  return `${cursor.objectKey}@${cursor.startedAt}`;
+}
+
+/**
+ * Embeds every artist in an R2 documents file and upserts the vectors into
+ * ARTIST_EMBEDDINGS. The run is driven by alarms, one batch per alarm, and the
+ * cursor is written to storage after each batch is upserted. If a batch throws,
+ * the alarm is retried by the runtime and picks up from the last saved cursor.
+ */
+export class ArtistIngestion extends DurableObject<Env> {
+  /**
+   * Parsed documents of the current run, keyed by object and start time, so
+   * batches don't each re-download the blob. Lost on eviction and reloaded.
+   */
+  private runDocuments: { runKey: string; documents: ArtistDocument[] } | null =
+    null;
+
+  async start(options: IngestionOptions = {}): Promise<IngestionCursor> {
+    const objectKey = options.objectKey || LEGACY_DOCUMENTS_KEY;
+    const batchSize = options.batchSize || 5;
+    const existing = await this.ctx.storage.get<IngestionCursor>(CURSOR_KEY);
+
+    if (
+      existing &&
+      existing.status === "running" &&
+      existing.objectKey === objectKey &&
+      !options.restart
+    ) {
+      console.log(
+        `Resuming ingestion of ${objectKey} at index ${existing.nextIndex}/${existing.total}`
+      );
+      await this.ctx.storage.setAlarm(Date.now());
+      return existing;
+    }
+
+    const documents = await loadDocumentsBlob(
+      this.env.ARTIST_DOCUMENTS,
+      objectKey
+    );
+    const now = new Date().toISOString();
+    const cursor: IngestionCursor = {
+      objectKey,
+      status: documents.length > 0 ? "running" : "done",
+      nextIndex: 0,
+      total: documents.length,
+      batchSize,
+      songChunks: options.songChunks ?? true,
+      upserted: 0,
+      songChunksUpserted: 0,
+      skipped: [],
+      startedAt: now,
+      updatedAt: now
+    };
+
+    await this.ctx.storage.put(CURSOR_KEY, cursor);
+    this.runDocuments = { runKey: runKey(cursor), documents };
+    if (cursor.status === "running") {
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+
+    console.log(
+      `Started ingestion of ${objectKey} (${documents.length} artists)`
+    );
+    return cursor;
+  }
+
+  async getStatus(): Promise<IngestionCursor | null> {
+    return (await this.ctx.storage.get<IngestionCursor>(CURSOR_KEY)) ?? null;
+  }
+
+  async alarm() {
+    const cursor = await this.ctx.storage.get<IngestionCursor>(CURSOR_KEY);
+    if (!cursor || cursor.status !== "running") {
+      return;
+    }
+
+    try {
+      await this.processBatch(cursor);
+    } catch (error) {
+      console.error(
+        `Ingestion batch at index ${cursor.nextIndex} failed:`,
+        error
+      );
+      cursor.lastError = error instanceof Error ? error.message : String(error);
+      cursor.updatedAt = new Date().toISOString();
+      await this.ctx.storage.put(CURSOR_KEY, cursor);
+      // Rethrow so the runtime retries the alarm from the saved cursor
+      throw error;
+    }
+
+    if (cursor.status === "running") {
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+  }
+
+  private async loadRunDocuments(
+    cursor: IngestionCursor
+  ): Promise<ArtistDocument[]> {
+    const key = runKey(cursor);
+    if (this.runDocuments?.runKey !== key) {
+      this.runDocuments = {
+        runKey: key,
+        documents: await loadDocumentsBlob(
+          this.env.ARTIST_DOCUMENTS,
+          cursor.objectKey
+        )
+      };
+    }
+    return this.runDocuments.documents;
+  }
+
+  private async processBatch(cursor: IngestionCursor) {
+    const documents = await this.loadRunDocuments(cursor);
+    const startIndex = cursor.nextIndex;
+    const endIndex = Math.min(startIndex + cursor.batchSize, documents.length);
+    const batch = documents.slice(startIndex, endIndex);
+
+    console.log(
+      `Ingesting batch: ${startIndex} to ${endIndex} of ${documents.length}...`
+    );
+
+    const vectors: VectorizeVector[] = [];
+    const chunkVectors: VectorizeVector[] = [];
+    const staleChunkIds: string[] = [];
+    const skipped: IngestionSkip[] = [];
+
+    for (let i = 0; i < batch.length; i++) {
+      const { genre, artist, document } = batch[i];
+
+      // Failed items are quarantined in the cursor and never upserted
+      const result = await embedDocument(this.env.AI, document ?? "");
+      if (!result.embedding) {
+        skipped.push({
+          index: startIndex + i,
+          genre,
+          artist,
+          reason: result.reason,
+          attempts: result.attempts
+        });
+        continue;
+      }
+
+      vectors.push({
+        id: await artistVectorId(genre, artist),
+        values: result.embedding,
+        metadata: { type: "artist", genre, artist }
+      });
+
+      if (cursor.songChunks) {
+        const chunks = await embedSongChunks(
+          this.env.AI,
+          genre,
+          artist,
+          document
+        );
+        chunkVectors.push(...chunks.vectors);
+        staleChunkIds.push(...chunks.staleIds);
+        for (const failure of chunks.failures) {
+          skipped.push({ index: startIndex + i, genre, artist, ...failure });
+        }
+      }
+    }
+
+    if (vectors.length > 0) {
+      await this.env.ARTIST_EMBEDDINGS.upsert(vectors);
+      await getCatalogStub(this.env).upsertArtists(
+        vectors.map((v) => ({
+          name: String(v.metadata?.artist),
+          genre: String(v.metadata?.genre),
+          vectorId: v.id
+        }))
+      );
+    }
+    if (chunkVectors.length > 0) {
+      await this.env.ARTIST_EMBEDDINGS.upsert(chunkVectors);
+    }
+    if (staleChunkIds.length > 0) {
+      await this.env.ARTIST_EMBEDDINGS.deleteByIds(staleChunkIds);
+    }
+
+    cursor.nextIndex = endIndex;
+    cursor.total = documents.length;
+    cursor.upserted += vectors.length;
+    cursor.songChunksUpserted =
+      (cursor.songChunksUpserted ?? 0) + chunkVectors.length;
+    cursor.skipped.push(...skipped);
+    cursor.status = endIndex >= documents.length ? "done" : "running";
+    cursor.updatedAt = new Date().toISOString();
+    delete cursor.lastError;
+
+    await this.ctx.storage.put(CURSOR_KEY, cursor);
+    console.log(
+      `✓ Upserted ${vectors.length} vectors (${chunkVectors.length} song chunks), cursor at ${endIndex}/${documents.length}`
+    );
+  }
+}
+
+export function getIngestionStub(env: Env) {
+  return env.ArtistIngestion.get(env.ArtistIngestion.idFromName("default"));
+}
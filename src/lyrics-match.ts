@@ -0,0 +1,136 @@
+import { embedDocument } from "./embeddings";
+import {
+  type GenreCentroid,
+  type GenreScore,
+  rankGenres
+} from "./genre-classifier";
+import {
+  type ArtistResult,
+  getAverageGenreVector,
+  MAX_QUERY_TOP_K,
+  vectorArithmetic,
+  withArtistNames
+} from "./vector-utils";
+
+/** Lyrics are cut to the same length as songs in the imported documents */
+export const MAX_PASTED_LYRICS_LENGTH = 2000;
+
+export interface LyricsMatchOptions {
+  /** Genres to rank the text against; their centroids must exist */
+  genres: string[];
+  /** Also answer "who am I in this genre?" using the predicted source genre */
+  targetGenre?: string;
+  /** Nearest artists to return overall and for the analogy */
+  topK?: number;
+  /** Nearest artists to return within each genre */
+  perGenre?: number;
+}
+
+export interface LyricsMatchResult {
+  /** Genres by similarity of their centroid to the text, best first */
+  genreScores: GenreScore[];
+  predictedGenre: string | null;
+  overall: ArtistResult[];
+  byGenre: Array<{ genre: string; results: ArtistResult[] }>;
+  analogy: {
+    sourceGenre: string;
+    targetGenre: string;
+    results: ArtistResult[];
+  } | null;
+}
+
+async function queryArtists(
+  vectorize: VectorizeIndex,
+  vector: number[],
+  topK: number,
+  genre?: string
+): Promise<ArtistResult[]> {
+  const queryResult = await vectorize.query(vector, {
+    topK: Math.min(topK, MAX_QUERY_TOP_K),
+    filter: genre ? { type: "artist", genre } : { type: "artist" },
+    returnMetadata: "none",
+    returnValues: false
+  });
+  return withArtistNames(vectorize, queryResult.matches, genre ?? "");
+}
+
+/**
+ * Finds the artists closest to lyrics a user pasted in. The text is treated
+ * like an artist vector: it's matched overall and per genre, and for the
+ * analogy it's shifted from its predicted genre's centroid to the target's.
+ * The embedding only lives for this request and is never upserted.
+ */
+export async function matchLyrics(
+  ai: Ai,
+  vectorize: VectorizeIndex,
+  lyrics: string,
+  options: LyricsMatchOptions
+): Promise<LyricsMatchResult> {
+  const { genres, targetGenre, topK = 5, perGenre = 3 } = options;
+
+  const text = lyrics.trim().slice(0, MAX_PASTED_LYRICS_LENGTH);
+  if (!text) {
+    throw new Error("Lyrics must not be empty");
+  }
+
+  const embedded = await embedDocument(ai, text, { retries: 1 });
+  if (!embedded.embedding) {
+    throw new Error(`Failed to embed lyrics: ${embedded.reason}`);
+  }
+  const vector = embedded.embedding;
+
+  const centroids = await Promise.all(
+    genres.map(async (genre) => ({
+      genre,
+      vector: await getAverageGenreVector(vectorize, genre)
+    }))
+  );
+  const available = centroids.filter(
+    (c): c is GenreCentroid => c.vector !== null
+  );
+  const genreScores = rankGenres(vector, available);
+  const predicted = genreScores[0]
+    ? available.find((c) => c.genre === genreScores[0].genre)
+    : undefined;
+
+  const [overall, byGenre] = await Promise.all([
+    queryArtists(vectorize, vector, topK),
+    Promise.all(
+      available.map(async ({ genre }) => ({
+        genre,
+        results: await queryArtists(vectorize, vector, perGenre, genre)
+      }))
+    )
+  ]);
+
+  let analogy: LyricsMatchResult["analogy"] = null;
+  if (targetGenre) {
+    const target = available.find((c) => c.genre === targetGenre);
+    if (!target) {
+      throw new Error(
+        `Average vector not found for target genre ${targetGenre}`
+      );
+    }
+    if (!predicted) {
+      throw new Error("No genre centroids available to predict a source genre");
+    }
+    analogy = {
+      sourceGenre: predicted.genre,
+      targetGenre,
+      results: await queryArtists(
+        vectorize,
+        vectorArithmetic(vector, predicted.vector, target.vector),
+        topK,
+        targetGenre
+      )
+    };
+  }
+
+  return {
+    genreScores,
+    predictedGenre: predicted?.genre ?? null,
+    overall,
+    byGenre,
+    analogy
+  };
+}
@@ -0,0 +1,230 @@
+import { GENRE_SYNONYMS, normalizeName } from "./artist-names";
+import { getCatalogStub, resolveArtistName } from "./catalog";
+
+/** Scores at or above this resolve without asking */
+const CONFIDENT_SCORE = 0.8;
+/** ...as long as the runner-up trails by at least this much */
+const CONFIDENT_MARGIN = 0.1;
+/** Candidates below this aren't worth suggesting */
+const MIN_CANDIDATE_SCORE = 0.4;
+const MAX_CANDIDATES = 5;
+
+export interface ArtistCandidate {
+  artist: string;
+  genre: string;
+  displayName: string;
+  /** 0-1, where 1 is an exact (normalized or alias) match */
+  confidence: number;
+}
+
+export interface GenreCandidate {
+  genre: string;
+  confidence: number;
+}
+
+export type Resolution<T> =
+  | { status: "resolved"; match: T }
+  | { status: "ambiguous" | "not_found"; candidates: T[] };
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function editSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  return (
+    a === b || (a.length >= 3 && b.startsWith(a)) || editSimilarity(a, b) >= 0.8
+  );
+}
+
+/**
+ * How well a normalized query matches a normalized name, 0-1. Takes the
+ * better of whole-string edit similarity (typos) and token overlap
+ * ("kendrick" for "kendrick lamar"), weighting query tokens found in the
+ * name above name tokens found in the query.
+ */
+export function nameSimilarity(query: string, name: string): number {
+  if (!query || !name) return 0;
+  if (query === name) return 1;
+
+  const queryTokens = query.split(" ");
+  const nameTokens = name.split(" ");
+  const queryCoverage =
+    queryTokens.filter((q) => nameTokens.some((n) => tokensMatch(q, n)))
+      .length / queryTokens.length;
+  const nameCoverage =
+    nameTokens.filter((n) => queryTokens.some((q) => tokensMatch(q, n)))
+      .length / nameTokens.length;
+
+  return Math.max(
+    editSimilarity(query, name),
+    0.7 * queryCoverage + 0.25 * nameCoverage
+  );
+}
+
+/** Resolves confidently, or falls back to the best candidates worth suggesting */
+export function decide<T extends { confidence: number }>(
+  ranked: T[]
+): Resolution<T> {
+  const [best, runnerUp] = ranked;
+  if (
+    best &&
+    best.confidence >= CONFIDENT_SCORE &&
+    (!runnerUp || best.confidence - runnerUp.confidence >= CONFIDENT_MARGIN)
+  ) {
+    return { status: "resolved", match: best };
+  }
+
+  const candidates = ranked
+    .filter((c) => c.confidence >= MIN_CANDIDATE_SCORE)
+    .slice(0, MAX_CANDIDATES);
+  return {
+    status: candidates.length > 0 ? "ambiguous" : "not_found",
+    candidates
+  };
+}
+
+/**
+ * Resolves a free-text genre ("Hip Hop", "R&B", "contry") to a catalog
+ * genre, through exact matches, GENRE_SYNONYMS and then edit distance.
+ */
+export async function resolveGenreFuzzy(
+  env: Env,
+  genre: string
+): Promise<Resolution<GenreCandidate>> {
+  const catalog = getCatalogStub(env);
+  const query = normalizeName(genre);
+  const synonym = GENRE_SYNONYMS[query];
+
+  const exact =
+    (await catalog.resolveGenre(genre)) ??
+    (synonym ? await catalog.resolveGenre(synonym) : null);
+  if (exact) {
+    return { status: "resolved", match: { genre: exact, confidence: 1 } };
+  }
+
+  const genres = (await catalog.listGenres()).map((g) => g.genre);
+  const ranked = genres
+    .map((g) => ({
+      genre: g,
+      confidence: nameSimilarity(query, normalizeName(g))
+    }))
+    .sort((a, b) => b.confidence - a.confidence);
+  return decide(ranked);
+}
+
+/**
+ * Resolves a free-text artist, and optionally a genre, against the catalog.
+ * Exact and alias matches win outright; otherwise catalog names (and alias
+ * spellings) are ranked by nameSimilarity. When the genre is omitted or
+ * doesn't match, it is inferred from the best-matching artist.
+ */
+export async function resolveArtistFuzzy(
+  env: Env,
+  artist: string,
+  genre?: string
+): Promise<Resolution<ArtistCandidate>> {
+  const genreResolution = genre ? await resolveGenreFuzzy(env, genre) : null;
+  const resolvedGenre =
+    genreResolution?.status === "resolved"
+      ? genreResolution.match.genre
+      : undefined;
+
+  const exact = await resolveArtistName(env, artist, resolvedGenre);
+  if (exact.found) {
+    return {
+      status: "resolved",
+      match: {
+        artist: exact.artist,
+        genre: exact.genre,
+        displayName: exact.displayName,
+        confidence: 1
+      }
+    };
+  }
+  if (exact.ambiguous.length > 0) {
+    return {
+      status: "ambiguous",
+      candidates: exact.ambiguous.map((a) => ({
+        artist: a.name,
+        genre: a.genre,
+        displayName: a.displayName,
+        confidence: 1
+      }))
+    };
+  }
+
+  const catalog = getCatalogStub(env);
+  const [artists, aliases] = await Promise.all([
+    catalog.allArtists(),
+    catalog.listAliases()
+  ]);
+  const query = normalizeName(artist);
+
+  // Alias spellings score on behalf of the artist they point to
+  const spellings = new Map<string, string[]>();
+  for (const { alias, name } of aliases) {
+    const key = normalizeName(name);
+    spellings.set(key, [...(spellings.get(key) ?? []), normalizeName(alias)]);
+  }
+
+  const ranked = artists
+    .map((a) => {
+      const norm = normalizeName(a.name);
+      const score = Math.max(
+        ...[norm, ...(spellings.get(norm) ?? [])].map((s) =>
+          nameSimilarity(query, s)
+        )
+      );
+      // An artist outside the requested genre can still be suggested, but
+      // shouldn't resolve silently
+      const outsideGenre =
+        resolvedGenre !== undefined && a.genre !== resolvedGenre;
+      return {
+        artist: a.name,
+        genre: a.genre,
+        displayName: a.name,
+        confidence: outsideGenre ? score * 0.75 : score
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const resolution = decide(ranked);
+  const withDisplayNames = async (candidates: ArtistCandidate[]) => {
+    const resolved = await catalog.resolveArtists(
+      candidates.map((c) => ({ name: c.artist, genre: c.genre }))
+    );
+    return candidates.map((c, i) => {
+      const r = resolved[i];
+      return {
+        ...c,
+        displayName: r.status === "resolved" ? r.match.displayName : c.artist
+      };
+    });
+  };
+
+  if (resolution.status === "resolved") {
+    const [match] = await withDisplayNames([resolution.match]);
+    return { status: "resolved", match };
+  }
+  return {
+    status: resolution.status,
+    candidates: await withDisplayNames(resolution.candidates)
+  };
+}
@@ -16,6 +16,18 @@ import {
 import { createWorkersAI } from "workers-ai-provider";
 import { processToolCalls, cleanupMessages } from "./utils";
 import { tools, executions } from "./tools";
+import { embedDocument } from "./embeddings";
+import { getIngestionStub } from "./ingestion";
+import { getCsvImportStub, IMPORT_STAGING_PREFIX } from "./csv-import";
+import { recomputeGenreCentroids } from "./centroids";
+import { getArtistDocument, listArtistDocuments, manifestKey, migrateDocumentsBlob } from "./document-store";
+import { displayArtistNames, getCatalogStub, type ResolvedArtist, resolveArtistName, resolveGenreName } from "./catalog";
+import { migrateVectorIds, reindexArtistVectors } from "./vector-id-migration";
+import type { ArtistResult } from "./vector-utils";
+
+export { ArtistIngestion } from "./ingestion";
+export { ArtistCatalog } from "./catalog";
+export { CsvImport } from "./csv-import";
 // Cloudflare AI Gateway
 // const openai = createOpenAI({
 //   apiKey: env.OPENAI_API_KEY,
@@ -105,6 +117,14 @@ When generating songs using the generateSongInStyle tool:
 
     return createUIMessageStreamResponse({ stream });
   }
+  /**
+   * Bindings for the chat tools. `env` is protected on the agent, and the
+   * tools only get the agent instance through getCurrentAgent.
+   */
+  getEnv(): Env {
+    return this.env;
+  }
+
   async executeTask(description: string, _task: Schedule<string>) {
     await this.saveMessages([
       ...this.messages,
@@ -150,6 +170,71 @@ async function checkPasscode(request: Request, env: Env): Promise<Response | nul
   );
 }
 
+// Explanations cost several LLM calls per result, so pages stay small
+const MAX_EQUIVALENT_LIMIT = 20;
+
+// Genre-shift strengths past this land far outside any genre
+const MAX_ALPHA = 2;
+// Alphas per sweep request, each costing one Vectorize query
+const MAX_ALPHA_STEPS = 13;
+
+/** A result count clamped to 1..MAX_EQUIVALENT_LIMIT, or a 400 when it isn't a number */
+function readCount(value: unknown, name: string, fallback: number): number | Response {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return Response.json({ error: `${name} must be a number` }, { status: 400 });
+  }
+  return Math.min(Math.max(Math.floor(value), 1), MAX_EQUIVALENT_LIMIT);
+}
+
+/** limit, offset and minScore of a search request, or a 400 for the first one of the wrong type */
+function readPaging(
+  body: { limit?: unknown; offset?: unknown; minScore?: unknown },
+  defaultLimit = 3
+): { limit: number; offset: number; minScore: number | undefined } | Response {
+  const limit = readCount(body.limit, "limit", defaultLimit);
+  if (limit instanceof Response) {
+    return limit;
+  }
+  const offset = body.offset ?? 0;
+  if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0) {
+    return Response.json({ error: "offset must be a non-negative integer" }, { status: 400 });
+  }
+  const minScore = body.minScore;
+  if (minScore !== undefined && (typeof minScore !== "number" || !Number.isFinite(minScore))) {
+    return Response.json({ error: "minScore must be a number" }, { status: 400 });
+  }
+  return { limit, offset, minScore };
+}
+
+function checkAdminToken(request: Request, env: Env): Response | null {
+  const expectedToken = env.ADMIN_TOKEN;
+  if (!expectedToken) {
+    // Unlike the passcode, admin routes stay closed until a token is set
+    return Response.json({ error: "Admin token not configured" }, { status: 503 });
+  }
+
+  const token = request.headers.get("X-Admin-Token");
+  if (token && token === expectedToken) {
+    return null;
+  }
+
+  return Response.json({ error: "Invalid or missing admin token" }, { status: 403 });
+}
+
+/** 404 with the stored spellings a name matches equally well, or null when it isn't ambiguous */
+function ambiguousArtist(input: string, resolved: { ambiguous: ResolvedArtist[] }): Response | null {
+  if (resolved.ambiguous.length === 0) {
+    return null;
+  }
+  return Response.json({
+    error: `"${input}" could refer to more than one artist`,
+    didYouMean: resolved.ambiguous.map((a) => ({ artist: a.name, genre: a.genre, displayName: a.displayName, confidence: 1 }))
+  }, { status: 404 });
+}
+
 export default {
   async fetch(request: Request, env: Env, _ctx: ExecutionContext) {
     const url = new URL(request.url);
@@ -162,6 +247,14 @@ export default {
       }
     }
 
+    // Admin routes additionally require the admin token
+    if (url.pathname.startsWith("/api/admin/")) {
+      const adminCheck = checkAdminToken(request, env);
+      if (adminCheck) {
+        return adminCheck;
+      }
+    }
+
     if (url.pathname === "/api/validate-passcode" && request.method === "POST") {
       try {
         const body = await request.json<{ passcode?: string }>();
@@ -227,83 +320,31 @@ export default {
         console.log(`Processing batch: ${startIndex} to ${endIndex} (${batch.length} documents)...`);
 
         const embeddingArray: number[][] = [];
+        const embeddedArtists: Array<{ genre: string; artist: string }> = [];
+        const failed: Array<{ index: number; genre: string; artist: string; reason: string; attempts: number }> = [];
         
         for (let i = 0; i < batch.length; i++) {
           const artist = batch[i];
-          const text = artist.document?.trim();
-          
-          if (!text) {
-            console.warn(`Skipping artist ${i + 1}: no document text`);
-            embeddingArray.push(new Array(1024).fill(0));
-            continue;
-          }
           
-          try {
-            console.log(`Processing ${startIndex + i + 1}/${allArtists.length}: ${artist.artist} (${artist.genre})...`);
-            
-            const embeddingPromise = env.AI.run("@cf/baai/bge-large-en-v1.5", {
-              text: text
-            });
-            
-            const timeoutPromise = new Promise((_, reject) => {
-              setTimeout(() => reject(new Error("Timeout")), 20000);
+          console.log(`Processing ${startIndex + i + 1}/${allArtists.length}: ${artist.artist} (${artist.genre})...`);
+
+          // Failed items are reported, never returned as zero or padded vectors
+          const result = await embedDocument(env.AI, artist.document ?? "");
+          if (!result.embedding) {
+            console.error(`Error for ${artist.artist}: ${result.reason}`);
+            failed.push({
+              index: startIndex + i,
+              genre: artist.genre,
+              artist: artist.artist,
+              reason: result.reason,
+              attempts: result.attempts
             });
-            
-            const embeddingsResponse = await Promise.race([embeddingPromise, timeoutPromise]) as any;
-            
-            let embedding: number[] | null = null;
-            
-            if (embeddingsResponse.data) {
-              if (Array.isArray(embeddingsResponse.data)) {
-                const firstItem = embeddingsResponse.data[0];
-                if (firstItem instanceof Float32Array) {
-                  embedding = Array.from(firstItem);
-                } else if (Array.isArray(firstItem)) {
-                  embedding = firstItem.map((v: any) => typeof v === 'number' ? v : Number(v));
-                }
-              } else if (embeddingsResponse.data instanceof Float32Array) {
-                embedding = Array.from(embeddingsResponse.data);
-              }
-            } else if (Array.isArray(embeddingsResponse)) {
-              const firstItem = embeddingsResponse[0];
-              if (firstItem instanceof Float32Array) {
-                embedding = Array.from(firstItem);
-              } else if (Array.isArray(firstItem)) {
-                embedding = firstItem.map((v: any) => typeof v === 'number' ? v : Number(v));
-              }
-            } else if (embeddingsResponse.shape && embeddingsResponse.data) {
-              const shape = embeddingsResponse.shape;
-              const data = embeddingsResponse.data;
-              const dims = shape[1] || 1024;
-              
-              if (data instanceof Float32Array) {
-                embedding = Array.from(data.slice(0, dims));
-              } else if (Array.isArray(data)) {
-                embedding = data.slice(0, dims).map((v: any) => typeof v === 'number' ? v : Number(v));
-              }
-            }
-            
-            if (!embedding || embedding.length === 0) {
-              console.error(`Failed to extract embedding. Response keys:`, Object.keys(embeddingsResponse));
-              embeddingArray.push(new Array(1024).fill(0));
-              continue;
-            }
-            
-            if (embedding.length !== 1024) {
-              if (embedding.length > 1024) {
-                embedding = embedding.slice(0, 1024);
-              } else {
-                embedding = [...embedding, ...new Array(1024 - embedding.length).fill(0)];
-              }
-            }
-            
-            embeddingArray.push(embedding);
-            console.log(`✓ Generated embedding ${startIndex + i + 1}/${allArtists.length}`);
-            
-          } catch (error) {
-            console.error(`Error for ${artist.artist}:`, error);
-            embeddingArray.push(new Array(1024).fill(0));
+            continue;
           }
+
+          embeddingArray.push(result.embedding);
+          embeddedArtists.push({ genre: artist.genre, artist: artist.artist });
+          console.log(`✓ Generated embedding ${startIndex + i + 1}/${allArtists.length}`);
         }
 
         const nextIndex = endIndex < allArtists.length ? endIndex : null;
@@ -313,7 +354,8 @@ export default {
           count: embeddingArray.length,
           nextIndex: nextIndex,
           done: nextIndex === null,
-          artists: batch.map(a => ({ genre: a.genre, artist: a.artist }))
+          artists: embeddedArtists,
+          failed
         });
       } catch (error) {
         console.error("Error generating embeddings:", error);
@@ -324,390 +366,1495 @@ export default {
       }
     }
 
-    if (url.pathname === "/api/analyze-artist" && request.method === "POST") {
+    if (url.pathname === "/api/admin/embeddings/ingest" && request.method === "POST") {
       try {
         const body = await request.json<{
-          artist: string;
-          genre: string;
+          objectKey?: string;
+          batchSize?: number;
+          restart?: boolean;
         }>();
 
-        if (!env.AI) {
-          return Response.json({ error: "AI binding not configured" }, { status: 500 });
+        if (!env.AI || !env.ARTIST_DOCUMENTS || !env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "AI, R2 and Vectorize bindings must be configured" }, { status: 500 });
         }
 
-        if (!env.ARTIST_DOCUMENTS) {
-          return Response.json({ error: "R2 binding not configured" }, { status: 500 });
-        }
+        const cursor = await getIngestionStub(env).start(body);
+        return Response.json({ cursor });
+      } catch (error) {
+        console.error("Error starting ingestion:", error);
+        return Response.json({
+          error: "Failed to start ingestion",
+          details: error instanceof Error ? error.message : String(error)
+        }, { status: 500 });
+      }
+    }
 
-        // Load artist documents from R2
-        const r2Object = await env.ARTIST_DOCUMENTS.get("artist_documents.json");
-        if (!r2Object) {
-          return Response.json({ error: "Artist documents not found in R2" }, { status: 404 });
-        }
+    if (url.pathname === "/api/admin/embeddings/ingest" && request.method === "GET") {
+      try {
+        const cursor = await getIngestionStub(env).getStatus();
+        return Response.json({ cursor });
+      } catch (error) {
+        console.error("Error reading ingestion status:", error);
+        return Response.json({
+          error: error instanceof Error ? error.message : String(error),
+          cursor: null
+        }, { status: 500 });
+      }
+    }
 
-        const documentsData = await r2Object.json() as { artists: Array<{ genre: string; artist: string; document: string }> };
-        const artistData = documentsData.artists.find(
-          a => a.artist === body.artist && a.genre === body.genre
-        );
+    if (url.pathname === "/api/admin/centroids/recompute" && request.method === "POST") {
+      try {
+        const body = await request.json<{ genres?: string[]; dirtyOnly?: boolean; threshold?: number }>().catch(() => ({}));
 
-        if (!artistData) {
-          return Response.json({ error: `Artist ${body.artist} not found in genre ${body.genre}` }, { status: 404 });
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
         }
 
-        const { extractArtistFeatures } = await import("./feature-extractor");
-        const features = await extractArtistFeatures(
-          env.AI,
-          artistData.document,
-          body.artist,
-          body.genre
-        );
-
-        return Response.json({
-          artist: body.artist,
-          genre: body.genre,
-          features
-        });
+        const report = await recomputeGenreCentroids(env, body);
+        return Response.json(report);
       } catch (error) {
-        console.error("Error analyzing artist:", error);
+        console.error("Error recomputing genre centroids:", error);
         return Response.json(
-          {
-            error: error instanceof Error ? error.message : String(error),
-            features: null
-          },
+          { error: error instanceof Error ? error.message : String(error) },
           { status: 500 }
         );
       }
     }
 
-    if (url.pathname === "/api/compare-artists" && request.method === "POST") {
+    if (url.pathname === "/api/admin/documents/migrate" && request.method === "POST") {
       try {
-        const body = await request.json<{
-          sourceArtist: string;
-          sourceGenre: string;
-          targetArtist: string;
-          targetGenre: string;
-          vectorSimilarity: number;
-        }>();
-
-        if (!env.AI) {
-          return Response.json({ error: "AI binding not configured" }, { status: 500 });
-        }
+        const body = await request.json<{ objectKey?: string }>().catch(() => ({ objectKey: undefined }));
 
         if (!env.ARTIST_DOCUMENTS) {
           return Response.json({ error: "R2 binding not configured" }, { status: 500 });
         }
 
-        // Load artist documents from R2
-        const r2Object = await env.ARTIST_DOCUMENTS.get("artist_documents.json");
-        if (!r2Object) {
-          return Response.json({ error: "Artist documents not found in R2" }, { status: 404 });
-        }
-
-        const documentsData = await r2Object.json() as { artists: Array<{ genre: string; artist: string; document: string }> };
-        
-        const sourceData = documentsData.artists.find(
-          a => a.artist === body.sourceArtist && a.genre === body.sourceGenre
-        );
-        const targetData = documentsData.artists.find(
-          a => a.artist === body.targetArtist && a.genre === body.targetGenre
+        const result = await migrateDocumentsBlob(env.ARTIST_DOCUMENTS, body.objectKey);
+        return Response.json(result);
+      } catch (error) {
+        console.error("Error migrating artist documents:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
         );
+      }
+    }
 
-        if (!sourceData) {
-          return Response.json({ error: `Source artist ${body.sourceArtist} not found` }, { status: 404 });
-        }
-        if (!targetData) {
-          return Response.json({ error: `Target artist ${body.targetArtist} not found` }, { status: 404 });
+    if (url.pathname === "/api/admin/catalog/rebuild" && request.method === "POST") {
+      try {
+        if (!env.ARTIST_DOCUMENTS) {
+          return Response.json({ error: "R2 binding not configured" }, { status: 500 });
         }
 
-        const { extractArtistFeatures } = await import("./feature-extractor");
-        const sourceFeatures = await extractArtistFeatures(
-          env.AI,
-          sourceData.document,
-          body.sourceArtist,
-          body.sourceGenre
-        );
-        const targetFeatures = await extractArtistFeatures(
-          env.AI,
-          targetData.document,
-          body.targetArtist,
-          body.targetGenre
+        // Backfill for vectors that were uploaded before the catalog existed
+        const documents = await listArtistDocuments(env.ARTIST_DOCUMENTS);
+        const catalog = getCatalogStub(env);
+        const knownIds = new Map(
+          (await catalog.allArtists()).map((a) => [manifestKey(a.genre, a.name), a.vectorId])
         );
-
-        const { compareArtists } = await import("./comparison-engine");
-        const comparison = await compareArtists(
-          env.AI,
-          body.sourceArtist,
-          body.sourceGenre,
-          sourceFeatures,
-          body.targetArtist,
-          body.targetGenre,
-          targetFeatures,
-          body.vectorSimilarity
+        await catalog.clear();
+        const count = await catalog.upsertArtists(
+          documents.map(({ genre, artist }) => ({
+            name: artist,
+            genre,
+            vectorId: knownIds.get(manifestKey(genre, artist))
+          }))
         );
 
-        return Response.json({
-          comparison,
-          sourceFeatures,
-          targetFeatures
-        });
+        return Response.json({ count, genres: await catalog.listGenres() });
       } catch (error) {
-        console.error("Error comparing artists:", error);
+        console.error("Error rebuilding artist catalog:", error);
         return Response.json(
-          {
-            error: error instanceof Error ? error.message : String(error),
-            comparison: null
-          },
+          { error: error instanceof Error ? error.message : String(error) },
           { status: 500 }
         );
       }
     }
 
-    if (url.pathname === "/api/find-equivalent" && request.method === "POST") {
+    if (url.pathname === "/api/admin/vectors/migrate-ids" && request.method === "POST") {
       try {
-        const body = await request.json<{
-          sourceArtist: string;
-          sourceGenre: string;
-          targetGenre: string;
-          includeExplanations?: boolean;
-        }>();
-
         if (!env.ARTIST_EMBEDDINGS) {
           return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
         }
 
-        console.log(`Finding equivalent for ${body.sourceArtist} (${body.sourceGenre}) in ${body.targetGenre}`);
-        
-        const { findEquivalentArtists } = await import("./vector-utils");
-        const results = await findEquivalentArtists(
-          env.ARTIST_EMBEDDINGS,
-          body.sourceArtist,
-          body.sourceGenre,
-          body.targetGenre,
-          3
+        const report = await migrateVectorIds(env);
+        return Response.json(report);
+      } catch (error) {
+        console.error("Error migrating vector ids:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
         );
+      }
+    }
 
-        console.log(`Found ${results.length} equivalent artists`);
-
-        if (body.includeExplanations && env.AI && env.ARTIST_DOCUMENTS) {
-          console.log("Explanations requested, loading documents from R2...");
-          try {
-            const r2Object = await env.ARTIST_DOCUMENTS.get("artist_documents.json");
-            if (!r2Object) {
-              console.warn("R2 object not found - artist_documents.json missing");
-              // Fall through to return basic results
-            } else {
-              console.log("R2 object found, parsing documents...");
-              const documentsData = await r2Object.json() as { artists: Array<{ genre: string; artist: string; document: string }> };
-              console.log(`Loaded ${documentsData.artists.length} artist documents from R2`);
-              
-              const sourceData = documentsData.artists.find(
-                a => a.artist.toLowerCase() === body.sourceArtist.toLowerCase() && 
-                     a.genre.toLowerCase() === body.sourceGenre.toLowerCase()
-              );
-
-              if (sourceData) {
-                console.log(`Found source artist data for ${body.sourceArtist}`);
-                const { extractArtistFeatures } = await import("./feature-extractor");
-                const { compareArtists } = await import("./comparison-engine");
-
-                console.log("Extracting source features...");
-                const sourceFeatures = await extractArtistFeatures(
-                  env.AI,
-                  sourceData.document,
-                  body.sourceArtist,
-                  body.sourceGenre
-                );
-                console.log("Source features extracted:", Object.keys(sourceFeatures));
-
-                console.log("Processing results with explanations...");
-                const enhancedResults = await Promise.all(
-                  results.map(async (result, idx) => {
-                    try {
-                      console.log(`Processing result ${idx + 1}/${results.length}: ${result.artist}`);
-                      const targetData = documentsData.artists.find(
-                        a => a.artist.toLowerCase() === result.artist.toLowerCase() && 
-                             a.genre.toLowerCase() === result.genre.toLowerCase()
-                      );
-
-                      if (targetData) {
-                        console.log(`Found target data for ${result.artist}, extracting features...`);
-                        const targetFeatures = await extractArtistFeatures(
-                          env.AI,
-                          targetData.document,
-                          result.artist,
-                          result.genre
-                        );
-                        console.log(`Target features extracted for ${result.artist}`);
-
-                        console.log(`Comparing ${body.sourceArtist} with ${result.artist}...`);
-                        const comparison = await compareArtists(
-                          env.AI,
-                          body.sourceArtist,
-                          body.sourceGenre,
-                          sourceFeatures,
-                          result.artist,
-                          result.genre,
-                          targetFeatures,
-                          result.score
-                        );
-                        console.log(`Comparison complete for ${result.artist}`);
-
-                        return {
-                          artist: result.artist,
-                          genre: result.genre,
-                          score: Math.round(result.score * 1000) / 1000,
-                          explanation: comparison,
-                          sourceFeatures,
-                          targetFeatures
-                        };
-                      } else {
-                        console.warn(`Target data not found for ${result.artist} in ${result.genre}`);
-                      }
-                    } catch (error) {
-                      console.error(`Error getting explanation for ${result.artist}:`, error);
-                    }
-
-                    return {
-                      artist: result.artist,
-                      genre: result.genre,
-                      score: Math.round(result.score * 1000) / 1000,
-                      explanation: null
-                    };
-                  })
-                );
-
-                console.log(`Returning ${enhancedResults.length} results with explanations`);
-                return Response.json({
-                  results: enhancedResults
-                });
-              } else {
-                console.warn(`Source artist data not found for ${body.sourceArtist} in ${body.sourceGenre}`);
-                console.log("Available artists in source genre:", 
-                  documentsData.artists
-                    .filter(a => a.genre.toLowerCase() === body.sourceGenre.toLowerCase())
-                    .map(a => a.artist)
-                    .slice(0, 10)
-                );
-              }
-            }
-          } catch (r2Error) {
-            console.error("Error loading from R2:", r2Error);
-            // Fall through to return basic results
-          }
-        } else {
-          console.log("Explanations not requested or AI/R2 not configured");
-          if (!env.AI) console.warn("AI binding not configured");
-          if (!env.ARTIST_DOCUMENTS) console.warn("R2 binding not configured");
+    if (url.pathname === "/api/admin/vectors/reindex" && request.method === "POST") {
+      try {
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
         }
 
-        return Response.json({
-          results: results.map((r) => ({
-            artist: r.artist,
-            genre: r.genre,
-            score: Math.round(r.score * 1000) / 1000
-          }))
-        });
+        const report = await reindexArtistVectors(env);
+        return Response.json(report);
       } catch (error) {
-        console.error("Error finding equivalent artists:", error);
+        console.error("Error reindexing vectors:", error);
         return Response.json(
-          {
-            error: error instanceof Error ? error.message : String(error),
-            results: []
-          },
+          { error: error instanceof Error ? error.message : String(error) },
           { status: 500 }
         );
       }
     }
 
-    if (url.pathname === "/api/generate-song" && request.method === "POST") {
+    if (url.pathname === "/api/admin/import/csv" && request.method === "POST") {
       try {
         const body = await request.json<{
-          equivalentArtist: string;
-          targetGenre: string;
+          objectKey?: string;
+          genres?: number;
+          artistsPerGenre?: number;
+          songsPerArtist?: number;
+          maxLyricsLength?: number;
+          outputKey?: string;
+          dryRun?: boolean;
+          sliceBytes?: number;
+          restart?: boolean;
         }>();
 
-        if (!env.AI) {
-          return Response.json({ error: "AI binding not configured" }, { status: 500 });
+        if (!env.ARTIST_DOCUMENTS) {
+          return Response.json({ error: "R2 binding not configured" }, { status: 500 });
+        }
+        if (!body.objectKey) {
+          return Response.json({ error: "objectKey is required" }, { status: 400 });
+        }
+        if (body.outputKey !== undefined && !body.outputKey.startsWith(IMPORT_STAGING_PREFIX)) {
+          return Response.json({ error: `outputKey must start with ${IMPORT_STAGING_PREFIX}` }, { status: 400 });
         }
 
-        const prompt = `Write a short song (1-2 verses and a chorus) in the style of ${body.equivalentArtist}, a ${body.targetGenre} artist. Return only the lyrics text, no additional formatting.`;
+        const cursor = await getCsvImportStub(env).start({ ...body, objectKey: body.objectKey });
+        return Response.json({ cursor });
+      } catch (error) {
+        console.error("Error starting song CSV import:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
 
-        const response = await env.AI.run("@cf/meta/llama-3.1-70b-instruct", {
-          messages: [
-            {
-              role: "user",
-              content: prompt
-            }
-          ]
-        });
+    if (url.pathname === "/api/admin/import/csv" && request.method === "GET") {
+      try {
+        const cursor = await getCsvImportStub(env).getStatus();
+        return Response.json({ cursor });
+      } catch (error) {
+        console.error("Error reading song CSV import status:", error);
+        return Response.json({
+          error: error instanceof Error ? error.message : String(error),
+          cursor: null
+        }, { status: 500 });
+      }
+    }
 
-        let songText = "";
-        if (response.response) {
-          songText = response.response;
-        } else if (typeof response === "string") {
-          songText = response;
-        } else if (response.choices && response.choices[0] && response.choices[0].message) {
-          songText = response.choices[0].message.content || "";
+    if (url.pathname === "/api/admin/vectors/diagnostics" && request.method === "GET") {
+      try {
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
         }
 
-        return Response.json({
-          song: songText.trim(),
-          artist: body.equivalentArtist,
-          genre: body.targetGenre
+        const { scanArtistVectors } = await import("./vector-diagnostics");
+        const report = await scanArtistVectors(env, {
+          genre: url.searchParams.get("genre") ?? undefined
         });
+        return Response.json(report);
       } catch (error) {
-        console.error("Error generating song:", error);
+        console.error("Error scanning vectors:", error);
         return Response.json(
-          {
-            error: error instanceof Error ? error.message : String(error),
-            song: ""
-          },
+          { error: error instanceof Error ? error.message : String(error) },
           { status: 500 }
         );
       }
     }
 
-    if (url.pathname === "/api/artists" && request.method === "GET") {
+    if (url.pathname === "/api/admin/genres/mislabelled" && request.method === "GET") {
       try {
         if (!env.ARTIST_EMBEDDINGS) {
           return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
         }
 
-        const artistsSet = new Set<string>();
-        const genresSet = new Set<string>();
-        const artists: Array<{ name: string; genre: string }> = [];
-        
-        for (let i = 0; i < 3; i++) {
-          const queryVector = Array.from({ length: 1024 }, () => (Math.random() - 0.5) * 0.01);
-          
-          const queryResult = await env.ARTIST_EMBEDDINGS.query(queryVector, {
-            topK: 50,
-            returnMetadata: true,
-            returnValues: false
-          });
+        const { findMislabelledArtists } = await import("./genre-classifier");
+        const report = await findMislabelledArtists(env, {
+          genre: url.searchParams.get("genre") ?? undefined
+        });
+        return Response.json(report);
+      } catch (error) {
+        console.error("Error checking artist genres:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
 
-          for (const match of queryResult.matches || []) {
-            const metadata = match.metadata as { genre?: string; artist?: string; type?: string };
-            if (metadata.type === "artist" && metadata.artist && metadata.genre) {
-              const key = `${metadata.genre}|${metadata.artist}`;
-              if (!artistsSet.has(key)) {
-                artistsSet.add(key);
-                genresSet.add(metadata.genre);
-                artists.push({
-                  name: metadata.artist,
-                  genre: metadata.genre
-                });
-              }
-            }
-          }
+    if (url.pathname === "/api/admin/genres/typicality" && request.method === "GET") {
+      try {
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
         }
 
-        return Response.json({
-          artists: artists.sort((a, b) => {
-            if (a.genre !== b.genre) return a.genre.localeCompare(b.genre);
-            return a.name.localeCompare(b.name);
+        const limitParam = url.searchParams.get("limit");
+        const limit = limitParam === null ? undefined : Number.parseInt(limitParam, 10);
+        if (limit !== undefined && !(limit >= 1)) {
+          return Response.json({ error: "limit must be a positive integer" }, { status: 400 });
+        }
+
+        const { findGenreTypicality } = await import("./genre-classifier");
+        const report = await findGenreTypicality(env, {
+          genre: url.searchParams.get("genre") ?? undefined,
+          limit
+        });
+        return Response.json(report);
+      } catch (error) {
+        console.error("Error ranking genre typicality:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/admin/aliases") {
+      try {
+        const catalog = getCatalogStub(env);
+
+        if (request.method === "GET") {
+          return Response.json({ aliases: await catalog.listAliases() });
+        }
+
+        if (request.method === "POST") {
+          const body = await request.json<{ alias?: string; name?: string }>();
+          if (!body.alias || !body.name) {
+            return Response.json({ error: "alias and name are required" }, { status: 400 });
+          }
+          return Response.json(await catalog.addAlias(body.alias, body.name));
+        }
+
+        if (request.method === "DELETE") {
+          const alias = url.searchParams.get("alias");
+          if (!alias) {
+            return Response.json({ error: "alias query parameter is required" }, { status: 400 });
+          }
+          const removed = await catalog.removeAlias(alias);
+          return Response.json({ removed }, { status: removed ? 200 : 404 });
+        }
+      } catch (error) {
+        console.error("Error updating aliases:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/admin/artists") {
+      try {
+        if (request.method === "GET") {
+          const page = await getCatalogStub(env).listArtists({
+            q: url.searchParams.get("q") ?? undefined,
+            genre: url.searchParams.get("genre") ?? undefined,
+            offset: Number(url.searchParams.get("offset") ?? 0) || 0,
+            limit: Number(url.searchParams.get("limit") ?? 50) || 50
+          });
+          return Response.json(page);
+        }
+
+        if (!env.AI || !env.ARTIST_EMBEDDINGS || !env.ARTIST_DOCUMENTS) {
+          return Response.json({ error: "AI, Vectorize and R2 bindings must be configured" }, { status: 500 });
+        }
+
+        const { deleteArtist, saveArtist, validateArtistInput } = await import("./artist-admin");
+
+        if (request.method === "PUT") {
+          const body = await request.json<{ genre?: string; artist?: string; document?: string }>();
+          const validated = await validateArtistInput(env, body);
+          if ("error" in validated) {
+            return Response.json({ error: validated.error }, { status: 400 });
+          }
+
+          const change = await saveArtist(env, validated);
+          if ("conflict" in change) {
+            return Response.json({ error: change.conflict }, { status: 409 });
+          }
+          return Response.json(change, { status: change.action === "created" ? 201 : 200 });
+        }
+
+        if (request.method === "DELETE") {
+          const genre = url.searchParams.get("genre");
+          const artist = url.searchParams.get("artist");
+          if (!genre || !artist) {
+            return Response.json({ error: "genre and artist query parameters are required" }, { status: 400 });
+          }
+
+          const change = await deleteArtist(env, genre, artist);
+          if (!change) {
+            return Response.json({ error: `Artist ${artist} not found in genre ${genre}` }, { status: 404 });
+          }
+          if ("conflict" in change) {
+            return Response.json({ error: change.conflict }, { status: 409 });
+          }
+          return Response.json(change);
+        }
+      } catch (error) {
+        console.error("Error updating artist:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/admin/audit" && request.method === "GET") {
+      try {
+        const limit = Number(url.searchParams.get("limit") ?? 100) || 100;
+        return Response.json({ entries: await getCatalogStub(env).listAudit(limit) });
+      } catch (error) {
+        console.error("Error reading audit log:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/analyze-artist" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          artist: string;
+          genre: string;
+        }>();
+
+        if (!env.AI) {
+          return Response.json({ error: "AI binding not configured" }, { status: 500 });
+        }
+
+        if (!env.ARTIST_DOCUMENTS) {
+          return Response.json({ error: "R2 binding not configured" }, { status: 500 });
+        }
+
+        const resolved = await resolveArtistName(env, body.artist, body.genre);
+        const ambiguous = ambiguousArtist(body.artist, resolved);
+        if (ambiguous) {
+          return ambiguous;
+        }
+        body.artist = resolved.artist;
+        body.genre = resolved.genre;
+
+        const { getArtistFeatures } = await import("./feature-cache");
+        const features = await getArtistFeatures(env, body.genre, body.artist, resolved.displayName);
+
+        if (!features) {
+          return Response.json({ error: `Artist ${body.artist} not found in genre ${body.genre}` }, { status: 404 });
+        }
+
+        return Response.json({
+          artist: resolved.displayName,
+          genre: body.genre,
+          features
+        });
+      } catch (error) {
+        console.error("Error analyzing artist:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            features: null
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/compare-artists" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          sourceArtist: string;
+          sourceGenre: string;
+          targetArtist: string;
+          targetGenre: string;
+          vectorSimilarity: number;
+        }>();
+
+        if (!env.AI) {
+          return Response.json({ error: "AI binding not configured" }, { status: 500 });
+        }
+
+        if (!env.ARTIST_DOCUMENTS) {
+          return Response.json({ error: "R2 binding not configured" }, { status: 500 });
+        }
+
+        const [source, target] = await Promise.all([
+          resolveArtistName(env, body.sourceArtist, body.sourceGenre),
+          resolveArtistName(env, body.targetArtist, body.targetGenre)
+        ]);
+        const ambiguous = ambiguousArtist(body.sourceArtist, source) ?? ambiguousArtist(body.targetArtist, target);
+        if (ambiguous) {
+          return ambiguous;
+        }
+        body.sourceArtist = source.artist;
+        body.sourceGenre = source.genre;
+        body.targetArtist = target.artist;
+        body.targetGenre = target.genre;
+
+        const { getArtistFeatures } = await import("./feature-cache");
+        const [sourceFeatures, targetFeatures] = await Promise.all([
+          getArtistFeatures(env, body.sourceGenre, body.sourceArtist, source.displayName),
+          getArtistFeatures(env, body.targetGenre, body.targetArtist, target.displayName)
+        ]);
+
+        if (!sourceFeatures) {
+          return Response.json({ error: `Source artist ${body.sourceArtist} not found` }, { status: 404 });
+        }
+        if (!targetFeatures) {
+          return Response.json({ error: `Target artist ${body.targetArtist} not found` }, { status: 404 });
+        }
+
+        const { compareArtists } = await import("./comparison-engine");
+        const comparison = await compareArtists(
+          env.AI,
+          source.displayName,
+          body.sourceGenre,
+          sourceFeatures,
+          target.displayName,
+          body.targetGenre,
+          targetFeatures,
+          body.vectorSimilarity
+        );
+
+        return Response.json({
+          comparison,
+          sourceFeatures,
+          targetFeatures
+        });
+      } catch (error) {
+        console.error("Error comparing artists:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            comparison: null
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/resolve" && request.method === "GET") {
+      try {
+        const artist = url.searchParams.get("artist");
+        const genre = url.searchParams.get("genre");
+        if (!artist && !genre) {
+          return Response.json({ error: "artist or genre is required" }, { status: 400 });
+        }
+
+        const { resolveArtistFuzzy, resolveGenreFuzzy } = await import("./resolver");
+        return Response.json(
+          artist
+            ? await resolveArtistFuzzy(env, artist, genre ?? undefined)
+            : await resolveGenreFuzzy(env, genre as string)
+        );
+      } catch (error) {
+        console.error("Error resolving name:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/find-equivalent/sweep" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          sourceArtist: string;
+          sourceGenre?: string;
+          targetGenre: string;
+          alphas?: number[];
+          limit?: number;
+        }>();
+
+        const limit = readCount(body.limit, "limit", 3);
+        if (limit instanceof Response) {
+          return limit;
+        }
+
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        if (body.alphas !== undefined) {
+          if (!Array.isArray(body.alphas)) {
+            return Response.json({ error: "alphas must be an array of numbers" }, { status: 400 });
+          }
+          if (body.alphas.length === 0 || body.alphas.length > MAX_ALPHA_STEPS) {
+            return Response.json({ error: `alphas must have 1 to ${MAX_ALPHA_STEPS} values` }, { status: 400 });
+          }
+          if (body.alphas.some((alpha) => typeof alpha !== "number" || !(alpha >= 0 && alpha <= MAX_ALPHA))) {
+            return Response.json({ error: `alphas must be between 0 and ${MAX_ALPHA}` }, { status: 400 });
+          }
+        }
+
+        const { resolveArtistFuzzy, resolveGenreFuzzy } = await import("./resolver");
+        const [sourceResolution, targetResolution] = await Promise.all([
+          resolveArtistFuzzy(env, body.sourceArtist, body.sourceGenre || undefined),
+          resolveGenreFuzzy(env, body.targetGenre)
+        ]);
+        if (sourceResolution.status !== "resolved") {
+          return Response.json(
+            { error: `Artist "${body.sourceArtist}" not found`, didYouMean: sourceResolution.candidates, steps: [] },
+            { status: 404 }
+          );
+        }
+        if (targetResolution.status !== "resolved") {
+          return Response.json(
+            { error: `Genre "${body.targetGenre}" not found`, didYouMean: targetResolution.candidates, steps: [] },
+            { status: 404 }
+          );
+        }
+        const source = sourceResolution.match;
+
+        const { sweepGenreShift } = await import("./vector-utils");
+        const steps = await sweepGenreShift(
+          env.ARTIST_EMBEDDINGS,
+          source.artist,
+          source.genre,
+          targetResolution.match.genre,
+          body.alphas,
+          limit
+        );
+
+        return Response.json({
+          artist: source.displayName,
+          genre: source.genre,
+          targetGenre: targetResolution.match.genre,
+          steps: await Promise.all(
+            steps.map(async (step) => {
+              const displayNames = await displayArtistNames(env, step.results);
+              return {
+                alpha: step.alpha,
+                results: step.results.map((r, idx) => ({
+                  artist: displayNames[idx],
+                  genre: r.genre,
+                  score: Math.round(r.score * 1000) / 1000
+                }))
+              };
+            })
+          )
+        });
+      } catch (error) {
+        console.error("Error sweeping genre shift:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            steps: []
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/find-equivalent" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          sourceArtist: string;
+          sourceGenre: string;
+          targetGenre: string;
+          includeExplanations?: boolean;
+          aggregation?: "artist" | "mean" | "maxsim";
+          rerank?: boolean;
+          mmrLambda?: number;
+          alpha?: number;
+          limit?: number;
+          offset?: number;
+          minScore?: number;
+        }>();
+
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        const paging = readPaging(body);
+        if (paging instanceof Response) {
+          return paging;
+        }
+        if (body.mmrLambda !== undefined && !(body.mmrLambda >= 0 && body.mmrLambda <= 1)) {
+          return Response.json({ error: "mmrLambda must be between 0 and 1" }, { status: 400 });
+        }
+        const { MAX_MMR_POOL } = await import("./vector-utils");
+        if (body.mmrLambda !== undefined && paging.offset >= MAX_MMR_POOL) {
+          return Response.json(
+            { error: `With mmrLambda, only the top ${MAX_MMR_POOL} results are ranked; offset must be below ${MAX_MMR_POOL}` },
+            { status: 400 }
+          );
+        }
+        if (body.alpha !== undefined && !(body.alpha >= 0 && body.alpha <= MAX_ALPHA)) {
+          return Response.json({ error: `alpha must be between 0 and ${MAX_ALPHA}` }, { status: 400 });
+        }
+
+        const { resolveArtistFuzzy, resolveGenreFuzzy } = await import("./resolver");
+        const [sourceResolution, targetResolution] = await Promise.all([
+          resolveArtistFuzzy(env, body.sourceArtist, body.sourceGenre || undefined),
+          resolveGenreFuzzy(env, body.targetGenre)
+        ]);
+        if (sourceResolution.status !== "resolved") {
+          return Response.json(
+            { error: `Artist "${body.sourceArtist}" not found`, didYouMean: sourceResolution.candidates, results: [] },
+            { status: 404 }
+          );
+        }
+        if (targetResolution.status !== "resolved") {
+          return Response.json(
+            { error: `Genre "${body.targetGenre}" not found`, didYouMean: targetResolution.candidates, results: [] },
+            { status: 404 }
+          );
+        }
+        const source = sourceResolution.match;
+        body.sourceArtist = source.artist;
+        body.sourceGenre = source.genre;
+        body.targetGenre = targetResolution.match.genre;
+
+        console.log(`Finding equivalent for ${body.sourceArtist} (${body.sourceGenre}) in ${body.targetGenre}`);
+        
+        const { findEquivalentArtists } = await import("./vector-utils");
+        const { limit, offset } = paging;
+        // vectorScore is the raw Vectorize score when re-ranking replaced `score`
+        let results: Array<ArtistResult & { vectorScore?: number }>;
+        let nextOffset: number | null;
+        // Per-result rank details, only present when re-ranking
+        let ranks: Array<{ vectorScore: number; originalRank: number; rank: number }> | null = null;
+
+        if (body.rerank) {
+          if (!env.AI || !env.ARTIST_DOCUMENTS) {
+            return Response.json({ error: "Re-ranking needs the AI and R2 bindings" }, { status: 500 });
+          }
+          // Re-rank the whole candidate pool, then page through the new order
+          const { MAX_HYBRID_POOL, rerankByFeatures } = await import("./hybrid-rerank");
+          const pool = await findEquivalentArtists(
+            env.ARTIST_EMBEDDINGS,
+            body.sourceArtist,
+            body.sourceGenre,
+            body.targetGenre,
+            MAX_HYBRID_POOL,
+            { aggregation: body.aggregation, minScore: paging.minScore, mmrLambda: body.mmrLambda, alpha: body.alpha }
+          );
+          const reranked = await rerankByFeatures(env, source, pool.results);
+          results = reranked.slice(offset, offset + limit);
+          nextOffset = reranked.length > offset + limit ? offset + limit : null;
+          ranks = reranked.slice(offset, offset + limit).map((r) => ({
+            vectorScore: Math.round(r.vectorScore * 1000) / 1000,
+            originalRank: r.originalRank,
+            rank: r.rank
+          }));
+        } else {
+          ({ results, nextOffset } = await findEquivalentArtists(
+            env.ARTIST_EMBEDDINGS,
+            body.sourceArtist,
+            body.sourceGenre,
+            body.targetGenre,
+            limit,
+            {
+              aggregation: body.aggregation,
+              offset,
+              minScore: paging.minScore,
+              mmrLambda: body.mmrLambda,
+              alpha: body.alpha
+            }
+          ));
+        }
+
+        console.log(`Found ${results.length} equivalent artists`);
+        const displayNames = await displayArtistNames(env, results);
+
+        if (body.includeExplanations && env.AI && env.ARTIST_DOCUMENTS) {
+          console.log("Explanations requested, loading cached features...");
+          try {
+            const { getArtistFeatures } = await import("./feature-cache");
+            const sourceFeatures = await getArtistFeatures(env, body.sourceGenre, body.sourceArtist, source.displayName);
+
+            if (sourceFeatures) {
+              console.log(`Found source features for ${body.sourceArtist}`);
+              const { compareArtists } = await import("./comparison-engine");
+
+              console.log("Processing results with explanations...");
+              const enhancedResults = await Promise.all(
+                results.map(async (result, idx) => {
+                  try {
+                    console.log(`Processing result ${idx + 1}/${results.length}: ${result.artist}`);
+                    const targetFeatures = await getArtistFeatures(env, result.genre, result.artist, displayNames[idx]);
+
+                    if (targetFeatures) {
+
+                      console.log(`Comparing ${body.sourceArtist} with ${result.artist}...`);
+                      const comparison = await compareArtists(
+                        env.AI,
+                        source.displayName,
+                        body.sourceGenre,
+                        sourceFeatures,
+                        displayNames[idx],
+                        result.genre,
+                        targetFeatures,
+                        // The breakdown blends in the vector score itself
+                        result.vectorScore ?? result.score
+                      );
+                      console.log(`Comparison complete for ${result.artist}`);
+
+                      return {
+                        artist: displayNames[idx],
+                        genre: result.genre,
+                        score: Math.round(result.score * 1000) / 1000,
+                        ...ranks?.[idx],
+                        explanation: comparison,
+                        sourceFeatures,
+                        targetFeatures
+                      };
+                    } else {
+                      console.warn(`Target data not found for ${result.artist} in ${result.genre}`);
+                    }
+                  } catch (error) {
+                    console.error(`Error getting explanation for ${result.artist}:`, error);
+                  }
+
+                  return {
+                    artist: displayNames[idx],
+                    genre: result.genre,
+                    score: Math.round(result.score * 1000) / 1000,
+                    ...ranks?.[idx],
+                    explanation: null
+                  };
+                })
+              );
+
+              console.log(`Returning ${enhancedResults.length} results with explanations`);
+              return Response.json({
+                results: enhancedResults,
+                nextOffset
+              });
+            } else {
+              console.warn(`Source artist features not found for ${body.sourceArtist} in ${body.sourceGenre}`);
+            }
+          } catch (r2Error) {
+            console.error("Error loading from R2:", r2Error);
+            // Fall through to return basic results
+          }
+        } else {
+          console.log("Explanations not requested or AI/R2 not configured");
+          if (!env.AI) console.warn("AI binding not configured");
+          if (!env.ARTIST_DOCUMENTS) console.warn("R2 binding not configured");
+        }
+
+        return Response.json({
+          results: results.map((r, idx) => ({
+            artist: displayNames[idx],
+            genre: r.genre,
+            score: Math.round(r.score * 1000) / 1000,
+            ...ranks?.[idx]
+          })),
+          nextOffset
+        });
+      } catch (error) {
+        console.error("Error finding equivalent artists:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            results: []
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/equivalence-matrix" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          sourceArtist: string;
+          sourceGenre: string;
+          genres?: string[];
+          limit?: number;
+          includeExplanations?: boolean;
+        }>();
+
+        const limit = readCount(body.limit, "limit", 3);
+        if (limit instanceof Response) {
+          return limit;
+        }
+
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+
+        const [source, genres] = await Promise.all([
+          resolveArtistName(env, body.sourceArtist, body.sourceGenre),
+          body.genres ? Promise.all(body.genres.map((g) => resolveGenreName(env, g))) : undefined
+        ]);
+        const ambiguous = ambiguousArtist(body.sourceArtist, source);
+        if (ambiguous) {
+          return ambiguous;
+        }
+
+        const { findEquivalenceMatrix } = await import("./equivalence-matrix");
+        const matrix = await findEquivalenceMatrix(env, source.artist, source.genre, { topK: limit, genres });
+
+        const columns = await Promise.all(
+          matrix.columns.map(async (column) => {
+            const displayNames = await displayArtistNames(env, column.results);
+            return {
+              genre: column.genre,
+              results: column.results.map((r, idx) => ({
+                artist: displayNames[idx],
+                genre: r.genre,
+                score: Math.round(r.score * 1000) / 1000
+              }))
+            };
+          })
+        );
+
+        // Explanations cost two LLM calls per artist, so only the top match
+        // in each genre gets one
+        if (body.includeExplanations && env.AI && env.ARTIST_DOCUMENTS) {
+          const { getArtistFeatures } = await import("./feature-cache");
+          const sourceFeatures = await getArtistFeatures(env, source.genre, source.artist, source.displayName);
+
+          if (sourceFeatures) {
+            const { compareArtists } = await import("./comparison-engine");
+
+            return Response.json({
+              artist: source.displayName,
+              genre: source.genre,
+              columns: await Promise.all(
+                columns.map(async (column, i) => {
+                  const top = matrix.columns[i].results[0];
+                  if (!top) {
+                    return { ...column, explanation: null };
+                  }
+                  try {
+                    const targetFeatures = await getArtistFeatures(env, top.genre, top.artist, column.results[0].artist);
+                    if (!targetFeatures) {
+                      console.warn(`Target data not found for ${top.artist} in ${top.genre}`);
+                      return { ...column, explanation: null };
+                    }
+                    const explanation = await compareArtists(
+                      env.AI,
+                      source.displayName,
+                      source.genre,
+                      sourceFeatures,
+                      column.results[0].artist,
+                      top.genre,
+                      targetFeatures,
+                      top.score
+                    );
+                    return { ...column, explanation };
+                  } catch (error) {
+                    console.error(`Error getting explanation for ${top.artist}:`, error);
+                    return { ...column, explanation: null };
+                  }
+                })
+              )
+            });
+          }
+          console.warn(`Source artist features not found for ${source.artist} in ${source.genre}`);
+        }
+
+        return Response.json({
+          artist: source.displayName,
+          genre: source.genre,
+          columns
+        });
+      } catch (error) {
+        console.error("Error building equivalence matrix:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            columns: []
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/find-similar" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          artist: string;
+          genre?: string;
+          sameGenre?: boolean;
+          limit?: number;
+          offset?: number;
+          minScore?: number;
+        }>();
+
+        const paging = readPaging(body);
+        if (paging instanceof Response) {
+          return paging;
+        }
+
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        if (!body.artist) {
+          return Response.json({ error: "artist is required" }, { status: 400 });
+        }
+
+        const { resolveArtistFuzzy } = await import("./resolver");
+        const resolution = await resolveArtistFuzzy(env, body.artist, body.genre || undefined);
+        if (resolution.status !== "resolved") {
+          return Response.json(
+            { error: `Artist "${body.artist}" not found`, didYouMean: resolution.candidates, results: [] },
+            { status: 404 }
+          );
+        }
+        const source = resolution.match;
+
+        const { findSimilarArtists } = await import("./vector-utils");
+        const { limit } = paging;
+        const { results, nextOffset } = await findSimilarArtists(env.ARTIST_EMBEDDINGS, source.artist, source.genre, limit, {
+          sameGenre: body.sameGenre,
+          offset: paging.offset,
+          minScore: paging.minScore
+        });
+        const displayNames = await displayArtistNames(env, results);
+
+        return Response.json({
+          artist: source.displayName,
+          genre: source.genre,
+          results: results.map((r, idx) => ({
+            artist: displayNames[idx],
+            genre: r.genre,
+            score: Math.round(r.score * 1000) / 1000
+          })),
+          nextOffset
+        });
+      } catch (error) {
+        console.error("Error finding similar artists:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            results: []
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/find-blend" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          sources?: Array<{ artist: string; genre?: string; weight?: number }>;
+          targetGenre: string;
+          limit?: number;
+          offset?: number;
+          minScore?: number;
+        }>();
+
+        const paging = readPaging(body);
+        if (paging instanceof Response) {
+          return paging;
+        }
+
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        if (!body.sources || body.sources.length < 2) {
+          return Response.json({ error: "At least two source artists are required" }, { status: 400 });
+        }
+        if (body.sources.some((s) => s.weight !== undefined && !(typeof s.weight === "number" && s.weight >= 0))) {
+          return Response.json({ error: "Blend weights must not be negative" }, { status: 400 });
+        }
+        if (body.sources.every((s) => s.weight === 0)) {
+          return Response.json({ error: "At least one blend weight must be positive" }, { status: 400 });
+        }
+
+        // Same resolution as the findBlendedArtists tool
+        const { resolveArtistFuzzy, resolveGenreFuzzy } = await import("./resolver");
+        const [sourceResolutions, targetResolution] = await Promise.all([
+          Promise.all(body.sources.map((s) => resolveArtistFuzzy(env, s.artist, s.genre || undefined))),
+          resolveGenreFuzzy(env, body.targetGenre)
+        ]);
+        const sources: Array<{ artist: string; genre: string; weight?: number }> = [];
+        for (const [i, resolution] of sourceResolutions.entries()) {
+          if (resolution.status !== "resolved") {
+            return Response.json(
+              { error: `Artist "${body.sources[i].artist}" not found`, didYouMean: resolution.candidates, results: [] },
+              { status: 404 }
+            );
+          }
+          sources.push({ artist: resolution.match.artist, genre: resolution.match.genre, weight: body.sources[i].weight });
+        }
+        if (targetResolution.status !== "resolved") {
+          return Response.json(
+            { error: `Genre "${body.targetGenre}" not found`, didYouMean: targetResolution.candidates, results: [] },
+            { status: 404 }
+          );
+        }
+        const targetGenre = targetResolution.match.genre;
+
+        const { limit } = paging;
+        const { findBlendedArtists } = await import("./blend");
+        const { results, nextOffset } = await findBlendedArtists(env.ARTIST_EMBEDDINGS, sources, targetGenre, limit, {
+          offset: paging.offset,
+          minScore: paging.minScore
+        });
+
+        const [resultNames, sourceNames] = await Promise.all([
+          displayArtistNames(env, results),
+          displayArtistNames(env, sources)
+        ]);
+
+        return Response.json({
+          results: results.map((r, idx) => ({
+            artist: resultNames[idx],
+            genre: r.genre,
+            score: Math.round(r.score * 1000) / 1000,
+            contributions: r.contributions.map((c, i) => ({
+              artist: sourceNames[i],
+              genre: c.genre,
+              weight: Math.round(c.weight * 1000) / 1000,
+              share: Math.round(c.share * 1000) / 1000
+            }))
+          })),
+          nextOffset
+        });
+      } catch (error) {
+        console.error("Error finding blended artists:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            results: []
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/bridge" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          from?: { artist: string; genre?: string };
+          to?: { artist: string; genre?: string };
+          steps?: number;
+          mode?: string;
+        }>();
+
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        if (!body.from?.artist || !body.to?.artist) {
+          return Response.json({ error: "from.artist and to.artist are required" }, { status: 400 });
+        }
+        if (body.mode !== undefined && body.mode !== "linear" && body.mode !== "slerp") {
+          return Response.json({ error: 'mode must be "linear" or "slerp"' }, { status: 400 });
+        }
+
+        const { resolveArtistFuzzy } = await import("./resolver");
+        const [fromResolution, toResolution] = await Promise.all([
+          resolveArtistFuzzy(env, body.from.artist, body.from.genre || undefined),
+          resolveArtistFuzzy(env, body.to.artist, body.to.genre || undefined)
+        ]);
+        if (fromResolution.status !== "resolved") {
+          return Response.json(
+            { error: `Artist "${body.from.artist}" not found`, didYouMean: fromResolution.candidates, steps: [] },
+            { status: 404 }
+          );
+        }
+        if (toResolution.status !== "resolved") {
+          return Response.json(
+            { error: `Artist "${body.to.artist}" not found`, didYouMean: toResolution.candidates, steps: [] },
+            { status: 404 }
+          );
+        }
+        const from = fromResolution.match;
+        const to = toResolution.match;
+
+        const { findArtistBridge } = await import("./bridge");
+        const steps = await findArtistBridge(env.ARTIST_EMBEDDINGS, from, to, {
+          steps: body.steps,
+          mode: body.mode
+        });
+        const displayNames = await displayArtistNames(env, steps);
+
+        return Response.json({
+          from: { artist: from.displayName, genre: from.genre },
+          to: { artist: to.displayName, genre: to.genre },
+          steps: steps.map((s, idx) => ({
+            t: Math.round(s.t * 1000) / 1000,
+            artist: displayNames[idx],
+            genre: s.genre,
+            score: Math.round(s.score * 1000) / 1000
+          }))
+        });
+      } catch (error) {
+        console.error("Error finding artist bridge:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            steps: []
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/fusion" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          genres?: Array<{ genre: string; weight?: number }>;
+          limit?: number;
+          offset?: number;
+          minScore?: number;
+        }>();
+
+        const paging = readPaging(body);
+        if (paging instanceof Response) {
+          return paging;
+        }
+
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        if (!body.genres || body.genres.length < 2) {
+          return Response.json({ error: "At least two genres are required" }, { status: 400 });
+        }
+        if (body.genres.some((g) => g.weight !== undefined && !(g.weight >= 0))) {
+          return Response.json({ error: "Genre weights must not be negative" }, { status: 400 });
+        }
+
+        const { resolveGenreFuzzy } = await import("./resolver");
+        const resolutions = await Promise.all(body.genres.map((g) => resolveGenreFuzzy(env, g.genre)));
+        const genres: Array<{ genre: string; weight?: number }> = [];
+        for (const [i, resolution] of resolutions.entries()) {
+          if (resolution.status !== "resolved") {
+            return Response.json(
+              { error: `Genre "${body.genres[i].genre}" not found`, didYouMean: resolution.candidates, results: [] },
+              { status: 404 }
+            );
+          }
+          genres.push({ genre: resolution.match.genre, weight: body.genres[i].weight });
+        }
+        if (new Set(genres.map((g) => g.genre)).size !== genres.length) {
+          return Response.json({ error: "Genres must be distinct" }, { status: 400 });
+        }
+
+        const { limit } = paging;
+        const { findGenreFusion } = await import("./fusion");
+        const { results, nextOffset } = await findGenreFusion(env.ARTIST_EMBEDDINGS, genres, limit, {
+          offset: paging.offset,
+          minScore: paging.minScore
+        });
+        const displayNames = await displayArtistNames(env, results);
+
+        return Response.json({
+          results: results.map((r, idx) => ({
+            artist: displayNames[idx],
+            genre: r.genre,
+            score: Math.round(r.score * 1000) / 1000,
+            balance: Math.round(r.balance * 1000) / 1000,
+            centroids: r.centroids.map((c) => ({
+              genre: c.genre,
+              weight: Math.round(c.weight * 1000) / 1000,
+              similarity: Math.round(c.similarity * 1000) / 1000
+            }))
+          })),
+          nextOffset
+        });
+      } catch (error) {
+        console.error("Error finding genre fusion:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            results: []
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/search-description" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          query?: string;
+          genre?: string;
+          limit?: number;
+          offset?: number;
+          minScore?: number;
+        }>();
+
+        const paging = readPaging(body);
+        if (paging instanceof Response) {
+          return paging;
+        }
+
+        if (!env.AI) {
+          return Response.json({ error: "AI binding not configured" }, { status: 500 });
+        }
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        if (!body.query?.trim()) {
+          return Response.json({ error: "query is required" }, { status: 400 });
+        }
+
+        const genre = body.genre ? await resolveGenreName(env, body.genre) : undefined;
+        const { limit } = paging;
+        const { searchArtistsByDescription } = await import("./description-search");
+        const { results, nextOffset } = await searchArtistsByDescription(
+          env.AI,
+          env.ARTIST_EMBEDDINGS,
+          body.query,
+          limit,
+          { genre, offset: paging.offset, minScore: paging.minScore }
+        );
+        const displayNames = await displayArtistNames(env, results);
+
+        return Response.json({
+          query: body.query,
+          genre: genre ?? null,
+          results: results.map((r, idx) => ({
+            artist: displayNames[idx],
+            genre: r.genre,
+            score: Math.round(r.score * 1000) / 1000
+          })),
+          nextOffset
+        });
+      } catch (error) {
+        console.error("Error searching by description:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            results: []
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/match-lyrics" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          lyrics?: string;
+          targetGenre?: string;
+          limit?: number;
+          perGenre?: number;
+        }>();
+
+        const topK = readCount(body.limit, "limit", 5);
+        if (topK instanceof Response) {
+          return topK;
+        }
+        const perGenre = readCount(body.perGenre, "perGenre", 3);
+        if (perGenre instanceof Response) {
+          return perGenre;
+        }
+
+        if (!env.AI) {
+          return Response.json({ error: "AI binding not configured" }, { status: 500 });
+        }
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        if (!body.lyrics?.trim()) {
+          return Response.json({ error: "lyrics are required" }, { status: 400 });
+        }
+
+        const [genreCounts, targetGenre] = await Promise.all([
+          getCatalogStub(env).listGenres(),
+          body.targetGenre ? resolveGenreName(env, body.targetGenre) : undefined
+        ]);
+        const { matchLyrics } = await import("./lyrics-match");
+        // The pasted text is only embedded for this request; it is never
+        // upserted or logged.
+        const match = await matchLyrics(env.AI, env.ARTIST_EMBEDDINGS, body.lyrics, {
+          genres: genreCounts.map((g) => g.genre),
+          targetGenre,
+          topK,
+          perGenre
+        });
+
+        const withDisplayNames = async (results: Array<{ artist: string; genre: string; score: number }>) => {
+          const displayNames = await displayArtistNames(env, results);
+          return results.map((r, idx) => ({
+            artist: displayNames[idx],
+            genre: r.genre,
+            score: Math.round(r.score * 1000) / 1000
+          }));
+        };
+
+        return Response.json({
+          predictedGenre: match.predictedGenre,
+          genreScores: match.genreScores.map((g) => ({
+            genre: g.genre,
+            similarity: Math.round(g.similarity * 1000) / 1000,
+            probability: Math.round(g.probability * 1000) / 1000
+          })),
+          overall: await withDisplayNames(match.overall),
+          byGenre: await Promise.all(
+            match.byGenre.map(async (g) => ({ genre: g.genre, results: await withDisplayNames(g.results) }))
+          ),
+          analogy: match.analogy
+            ? {
+                sourceGenre: match.analogy.sourceGenre,
+                targetGenre: match.analogy.targetGenre,
+                results: await withDisplayNames(match.analogy.results)
+              }
+            : null
+        });
+      } catch (error) {
+        console.error("Error matching lyrics:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/classify-genre" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          artist?: string;
+          genre?: string;
+          text?: string;
+          temperature?: number;
+        }>();
+
+        if (!env.ARTIST_EMBEDDINGS) {
+          return Response.json({ error: "Vectorize binding not configured" }, { status: 500 });
+        }
+        if (body.temperature !== undefined && !(typeof body.temperature === "number" && body.temperature > 0)) {
+          return Response.json({ error: "temperature must be positive" }, { status: 400 });
+        }
+
+        const { classifyArtist, classifyText } = await import("./genre-classifier");
+        const round = (scores: Array<{ genre: string; similarity: number; probability: number }>) =>
+          scores.map((g) => ({
+            genre: g.genre,
+            similarity: Math.round(g.similarity * 1000) / 1000,
+            probability: Math.round(g.probability * 1000) / 1000
+          }));
+
+        if (body.text !== undefined) {
+          if (typeof body.text !== "string") {
+            return Response.json({ error: "text must be a string" }, { status: 400 });
+          }
+          if (!env.AI) {
+            return Response.json({ error: "AI binding not configured" }, { status: 500 });
+          }
+          if (!body.text.trim()) {
+            return Response.json({ error: "text must not be empty" }, { status: 400 });
+          }
+          const result = await classifyText(env, body.text, { temperature: body.temperature });
+          return Response.json({
+            predictedGenre: result.predictedGenre,
+            distribution: round(result.distribution)
+          });
+        }
+
+        if (!body.artist || !body.genre) {
+          return Response.json({ error: "Either text, or artist and genre, are required" }, { status: 400 });
+        }
+        if (typeof body.artist !== "string" || typeof body.genre !== "string") {
+          return Response.json({ error: "artist and genre must be strings" }, { status: 400 });
+        }
+
+        const source = await resolveArtistName(env, body.artist, body.genre);
+        const ambiguous = ambiguousArtist(body.artist, source);
+        if (ambiguous) {
+          return ambiguous;
+        }
+        const result = await classifyArtist(env, source.artist, source.genre, {
+          temperature: body.temperature
+        });
+        return Response.json({
+          artist: source.displayName,
+          genre: result.genre,
+          predictedGenre: result.predictedGenre,
+          mislabelled: result.mislabelled,
+          distribution: round(result.distribution)
+        });
+      } catch (error) {
+        console.error("Error classifying genre:", error);
+        return Response.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/generate-song" && request.method === "POST") {
+      try {
+        const body = await request.json<{
+          equivalentArtist: string;
+          targetGenre: string;
+        }>();
+
+        if (!env.AI) {
+          return Response.json({ error: "AI binding not configured" }, { status: 500 });
+        }
+
+        const prompt = `Write a short song (1-2 verses and a chorus) in the style of ${body.equivalentArtist}, a ${body.targetGenre} artist. Return only the lyrics text, no additional formatting.`;
+
+        const response = await env.AI.run("@cf/meta/llama-3.1-70b-instruct", {
+          messages: [
+            {
+              role: "user",
+              content: prompt
+            }
+          ]
+        });
+
+        let songText = "";
+        if (response.response) {
+          songText = response.response;
+        } else if (typeof response === "string") {
+          songText = response;
+        } else if (response.choices && response.choices[0] && response.choices[0].message) {
+          songText = response.choices[0].message.content || "";
+        }
+
+        return Response.json({
+          song: songText.trim(),
+          artist: body.equivalentArtist,
+          genre: body.targetGenre
+        });
+      } catch (error) {
+        console.error("Error generating song:", error);
+        return Response.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            song: ""
+          },
+          { status: 500 }
+        );
+      }
+    }
+
+    if (url.pathname === "/api/artists" && request.method === "GET") {
+      try {
+        const catalog = getCatalogStub(env);
+        const offsetParam = url.searchParams.get("offset");
+        const limitParam = url.searchParams.get("limit");
+        const offset = offsetParam ? Number.parseInt(offsetParam, 10) : undefined;
+        const limit = limitParam ? Number.parseInt(limitParam, 10) : undefined;
+        if (offset !== undefined && !(offset >= 0)) {
+          return Response.json({ error: "offset must be a non-negative integer", artists: [], genres: [] }, { status: 400 });
+        }
+        if (limit !== undefined && !(limit >= 1)) {
+          return Response.json({ error: "limit must be a positive integer", artists: [], genres: [] }, { status: 400 });
+        }
+        const [page, genreCounts] = await Promise.all([
+          catalog.listArtists({
+            q: url.searchParams.get("q") || undefined,
+            genre: url.searchParams.get("genre") || undefined,
+            offset,
+            limit
           }),
-          genres: Array.from(genresSet).sort()
+          catalog.listGenres()
+        ]);
+
+        return Response.json({
+          artists: page.artists,
+          total: page.total,
+          nextOffset: page.nextOffset,
+          genres: genreCounts.map((g) => g.genre),
+          genreCounts
         });
       } catch (error) {
         console.error("Error fetching artists:", error);
@@ -732,33 +1879,30 @@ export default {
           return Response.json({ error: "R2 binding not configured" }, { status: 500 });
         }
 
-        // Load artist documents from R2
-        const r2Object = await env.ARTIST_DOCUMENTS.get("artist_documents.json");
-        if (!r2Object) {
-          return Response.json({ 
-            sourceDocument: "",
-            targetDocument: "",
-            error: "Artist documents not found in R2"
-          });
+        const [source, target] = await Promise.all([
+          resolveArtistName(env, body.sourceArtist, body.sourceGenre),
+          resolveArtistName(env, body.targetArtist, body.targetGenre)
+        ]);
+        const ambiguous = ambiguousArtist(body.sourceArtist, source) ?? ambiguousArtist(body.targetArtist, target);
+        if (ambiguous) {
+          return ambiguous;
         }
+        body.sourceArtist = source.artist;
+        body.sourceGenre = source.genre;
+        body.targetArtist = target.artist;
+        body.targetGenre = target.genre;
 
-        const documentsData = await r2Object.json() as { artists: Array<{ genre: string; artist: string; document: string }> };
-        
-        const sourceData = documentsData.artists.find(
-          a => a.artist.toLowerCase() === body.sourceArtist.toLowerCase() && 
-               a.genre.toLowerCase() === body.sourceGenre.toLowerCase()
-        );
-        const targetData = documentsData.artists.find(
-          a => a.artist.toLowerCase() === body.targetArtist.toLowerCase() && 
-               a.genre.toLowerCase() === body.targetGenre.toLowerCase()
-        );
+        const [sourceData, targetData] = await Promise.all([
+          getArtistDocument(env.ARTIST_DOCUMENTS, body.sourceGenre, body.sourceArtist),
+          getArtistDocument(env.ARTIST_DOCUMENTS, body.targetGenre, body.targetArtist)
+        ]);
 
         return Response.json({
           sourceDocument: sourceData?.document || "",
           targetDocument: targetData?.document || "",
-          sourceArtist: body.sourceArtist,
+          sourceArtist: source.displayName,
           sourceGenre: body.sourceGenre,
-          targetArtist: body.targetArtist,
+          targetArtist: target.displayName,
           targetGenre: body.targetGenre
         });
       } catch (error) {
@@ -785,5 +1929,18 @@ export default {
       (await routeAgentRequest(request, env)) ||
       new Response("Not found", { status: 404 })
     );
+  },
+
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(
+      recomputeGenreCentroids(env)
+        .then((report) => {
+          const changed = report.genres.filter((g) => g.changed).map((g) => g.genre);
+          console.log(`Scheduled centroid recompute finished. Changed genres:`, changed);
+        })
+        .catch((error) => {
+          console.error("Scheduled centroid recompute failed:", error);
+        })
+    );
   }
 } satisfies ExportedHandler<Env>;
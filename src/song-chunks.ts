@@ -0,0 +1,166 @@
+import { embedDocument, type EmbeddingFailure } from "./embeddings";
+import {
+  artistVectorId,
+  cosineSimilarity,
+  getVectorsByIds,
+  meanVector,
+  toNumberArray
+} from "./vector-utils";
+
+/**
+ * Upper bound on song chunks stored per artist. Chunk ids are derived from
+ * the artist id and an index below this, so they can be fetched (and
+ * deleted) without a separate index of how many each artist has.
+ */
+export const MAX_SONG_CHUNKS = 8;
+
+/** Rough size of a lyric chunk when a document has no song headers */
+const CHUNK_LENGTH = 1500;
+
+/**
+ * How an artist is represented when ranking equivalents:
+ * - "artist": the single whole-document vector
+ * - "mean": the mean of the artist's song chunk vectors
+ * - "maxsim": every chunk, scored by the best-matching chunk on the other side
+ */
+export type ChunkAggregation = "artist" | "mean" | "maxsim";
+
+export function songChunkVectorId(artistId: string, index: number): string {
+  return `${artistId}_s${index}`;
+}
+
+export async function songChunkIds(
+  genre: string,
+  artist: string
+): Promise<string[]> {
+  const artistId = await artistVectorId(genre, artist);
+  return Array.from({ length: MAX_SONG_CHUNKS }, (_, i) =>
+    songChunkVectorId(artistId, i)
+  );
+}
+
+/**
+ * Splits an artist document into songs. Documents built by the CSV importer
+ * have a "Song:" header per song; anything else is cut into roughly equal
+ * chunks on paragraph boundaries.
+ */
+export function splitDocumentIntoChunks(document: string): string[] {
+  const songs = document
+    .split(/\n(?=Song: )/)
+    .filter((part) => part.startsWith("Song: "))
+    .map((part) => part.trim());
+  if (songs.length > 0) {
+    return songs.slice(0, MAX_SONG_CHUNKS);
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const paragraph of document.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length > CHUNK_LENGTH) {
+      chunks.push(current.trim());
+      current = "";
+    }
+    current += `${paragraph}\n\n`;
+  }
+  if (current.trim()) {
+    chunks.push(current.trim());
+  }
+  return chunks.slice(0, MAX_SONG_CHUNKS);
+}
+
+/**
+ * Embeds each song chunk of a document. Chunks that fail to embed are
+ * reported and left out; their ids are returned in `staleIds` along with
+ * any unused slots, so callers can delete chunks left over from an older
+ * version of the document.
+ */
+export async function embedSongChunks(
+  ai: Ai,
+  genre: string,
+  artist: string,
+  document: string
+): Promise<{
+  vectors: VectorizeVector[];
+  failures: Array<EmbeddingFailure & { chunk: number }>;
+  staleIds: string[];
+}> {
+  const ids = await songChunkIds(genre, artist);
+  const chunks = splitDocumentIntoChunks(document);
+  const vectors: VectorizeVector[] = [];
+  const failures: Array<EmbeddingFailure & { chunk: number }> = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    const result = await embedDocument(ai, chunks[i]);
+    if (!result.embedding) {
+      failures.push({
+        chunk: i,
+        reason: result.reason,
+        attempts: result.attempts
+      });
+      continue;
+    }
+
+    vectors.push({
+      id: ids[i],
+      values: result.embedding,
+      metadata: {
+        type: "song",
+        genre,
+        artist,
+        chunk: i,
+        title: chunks[i].match(/^Song: (.*)$/m)?.[1] ?? ""
+      }
+    });
+  }
+
+  const stored = new Set(vectors.map((v) => v.id));
+  return { vectors, failures, staleIds: ids.filter((id) => !stored.has(id)) };
+}
+
+/** Song chunk vectors for several artists, keyed by artist id */
+export async function getSongChunkVectors(
+  vectorize: VectorizeIndex,
+  artists: Array<{ genre: string; artist: string }>
+): Promise<Map<string, number[][]>> {
+  const artistIds = await Promise.all(
+    artists.map(({ genre, artist }) => artistVectorId(genre, artist))
+  );
+  const ids = artistIds.flatMap((artistId) =>
+    Array.from({ length: MAX_SONG_CHUNKS }, (_, i) =>
+      songChunkVectorId(artistId, i)
+    )
+  );
+
+  const chunks = new Map<string, number[][]>(artistIds.map((id) => [id, []]));
+  for (const vector of await getVectorsByIds(vectorize, ids)) {
+    const artistId = vector.id.slice(0, vector.id.lastIndexOf("_s"));
+    chunks.get(artistId)?.push(toNumberArray(vector.values));
+  }
+  return chunks;
+}
+
+/**
+ * Scores a candidate against a source artist. Both sides are lists of
+ * vectors (song chunks, or the single artist vector when an artist has no
+ * chunks). "maxsim" averages, over source chunks, the best cosine against
+ * any candidate chunk.
+ */
+export function aggregateSimilarity(
+  source: number[][],
+  candidate: number[][],
+  aggregation: Exclude<ChunkAggregation, "artist">
+): number {
+  if (aggregation === "mean") {
+    return cosineSimilarity(meanVector(source), meanVector(candidate));
+  }
+
+  let total = 0;
+  for (const sourceChunk of source) {
+    let best = -1;
+    for (const candidateChunk of candidate) {
+      best = Math.max(best, cosineSimilarity(sourceChunk, candidateChunk));
+    }
+    total += best;
+  }
+  return total / source.length;
+}
@@ -4,7 +4,34 @@ import { z } from "zod/v3";
 import type { Chat } from "./server";
 import { getCurrentAgent } from "agents";
 import { scheduleSchema } from "agents/schedule";
-import { findEquivalentArtists } from "./vector-utils";
+import { type ArtistResult, findEquivalentArtists, findSimilarArtists, MAX_MMR_POOL } from "./vector-utils";
+import { MAX_HYBRID_POOL, rerankByFeatures } from "./hybrid-rerank";
+import { findBlendedArtists } from "./blend";
+import { findArtistBridge } from "./bridge";
+import { searchArtistsByDescription } from "./description-search";
+import { matchLyrics } from "./lyrics-match";
+import { classifyArtist } from "./genre-classifier";
+import { getArtistDocument } from "./document-store";
+import { displayArtistNames, getCatalogStub } from "./catalog";
+import { type Resolution, resolveArtistFuzzy, resolveGenreFuzzy } from "./resolver";
+
+/**
+ * Tool result for a name the resolver couldn't pin down. The suggestions
+ * go back to the model so it can retry or ask the user which one they meant.
+ */
+function unresolvedName(
+  kind: "artist" | "genre",
+  input: string,
+  resolution: Exclude<Resolution<{ confidence: number }>, { status: "resolved" }>
+) {
+  return {
+    error:
+      resolution.status === "ambiguous"
+        ? `"${input}" could refer to more than one ${kind}. Pick one of didYouMean and try again.`
+        : `No ${kind} found matching "${input}".`,
+    didYouMean: resolution.candidates
+  };
+}
 
 const getWeatherInformation = tool({
   description: "show the weather in a given city to the user",
@@ -88,16 +115,36 @@ const cancelScheduledTask = tool({
 });
 
 const findEquivalentArtistsTool = tool({
-  description: "Find equivalent artists across genres using vector arithmetic. Returns top 3 equivalent artists with similarity scores.",
+  description: "Find equivalent artists across genres using vector arithmetic. Returns the top equivalent artists (3 by default) with similarity scores, and a nextOffset for fetching more.",
   inputSchema: z.object({
-    sourceArtist: z.string().describe("The name of the source artist"),
-    sourceGenre: z.string().describe("The genre of the source artist"),
-    targetGenre: z.string().describe("The target genre to find equivalent artists in")
+    sourceArtist: z.string().describe("The name of the source artist; partial names and typos are resolved against the catalog"),
+    sourceGenre: z.string().optional().describe("The genre of the source artist; inferred when omitted"),
+    targetGenre: z.string().describe("The target genre to find equivalent artists in"),
+    aggregation: z
+      .enum(["artist", "mean", "maxsim"])
+      .optional()
+      .describe("How to compare artists: whole-artist vectors (default), the mean of their song vectors, or best-matching songs (maxsim)"),
+    rerank: z.boolean().optional().describe("Re-order candidates by themes, musical and lyrical features as well as vector similarity (slower)"),
+    mmrLambda: z
+      .number()
+      .min(0)
+      .max(1)
+      .optional()
+      .describe(`Diversify results: 1 ranks purely by similarity, lower values avoid near-duplicate artists (0.7 is a good start). Only the top ${MAX_MMR_POOL} candidates are diversified, so offset must be below ${MAX_MMR_POOL}`),
+    alpha: z
+      .number()
+      .min(0)
+      .max(2)
+      .optional()
+      .describe("How far to shift into the target genre: 1 (default) is a full transfer, 0.3 is \"a little more country\", above 1 exaggerates it"),
+    limit: z.number().int().min(1).max(20).optional().describe("How many artists to return (default 3)"),
+    offset: z.number().int().min(0).optional().describe("Ranked results to skip, e.g. the nextOffset of a previous call"),
+    minScore: z.number().optional().describe("Only return artists with at least this similarity score")
   }),
-  execute: async ({ sourceArtist, sourceGenre, targetGenre }) => {
-    const { agent } = getCurrentAgent<Chat>();
+  execute: async ({ sourceArtist, sourceGenre, targetGenre, aggregation, rerank, mmrLambda, alpha, limit, offset, minScore }) => {
+    const env = getCurrentAgent<Chat>().agent?.getEnv();
     
-    if (!agent?.env.ARTIST_EMBEDDINGS) {
+    if (!env?.ARTIST_EMBEDDINGS) {
       return {
         error: "Vectorize binding not configured",
         results: []
@@ -105,23 +152,184 @@ const findEquivalentArtistsTool = tool({
     }
     
     try {
-      const results = await findEquivalentArtists(
-        agent.env.ARTIST_EMBEDDINGS,
-        sourceArtist,
-        sourceGenre,
-        targetGenre,
-        3
-      );
+      const [sourceResolution, targetResolution] = await Promise.all([
+        resolveArtistFuzzy(env, sourceArtist, sourceGenre),
+        resolveGenreFuzzy(env, targetGenre)
+      ]);
+      if (sourceResolution.status !== "resolved") {
+        return { ...unresolvedName("artist", sourceArtist, sourceResolution), results: [] };
+      }
+      if (targetResolution.status !== "resolved") {
+        return { ...unresolvedName("genre", targetGenre, targetResolution), results: [] };
+      }
+      const source = sourceResolution.match;
+      const resolvedTargetGenre = targetResolution.match.genre;
+      let results: Array<ArtistResult & { originalRank?: number }>;
+      let nextOffset: number | null;
+      if (rerank && env.AI && env.ARTIST_DOCUMENTS) {
+        const pool = await findEquivalentArtists(
+          env.ARTIST_EMBEDDINGS,
+          source.artist,
+          source.genre,
+          resolvedTargetGenre,
+          MAX_HYBRID_POOL,
+          { aggregation, minScore, mmrLambda, alpha }
+        );
+        const reranked = await rerankByFeatures(env, source, pool.results);
+        const start = offset ?? 0;
+        const end = start + (limit ?? 3);
+        results = reranked.slice(start, end);
+        nextOffset = reranked.length > end ? end : null;
+      } else {
+        ({ results, nextOffset } = await findEquivalentArtists(
+          env.ARTIST_EMBEDDINGS,
+          source.artist,
+          source.genre,
+          resolvedTargetGenre,
+          limit ?? 3,
+          { aggregation, offset, minScore, mmrLambda, alpha }
+        ));
+      }
+      const displayNames = await displayArtistNames(env, results);
       
       return {
-        results: results.map(r => ({
-          artist: r.artist,
+        results: results.map((r, idx) => ({
+          artist: displayNames[idx],
+          genre: r.genre,
+          score: Math.round(r.score * 1000) / 1000,
+          originalRank: r.originalRank
+        })),
+        nextOffset
+      };
+    } catch (error) {
+      console.error("Error finding equivalent artists:", error);
+      return {
+        error: error instanceof Error ? error.message : String(error),
+        results: []
+      };
+    }
+  }
+});
+
+const findSimilarArtistsTool = tool({
+  description: "Find the artists most like a given artist, without moving to another genre, e.g. \"who in rap is most like Kendrick Lamar?\". Returns the nearest artists with similarity scores, never the artist themselves.",
+  inputSchema: z.object({
+    artist: z.string().describe("The name of the artist; partial names and typos are resolved against the catalog"),
+    genre: z.string().optional().describe("The genre of the artist; inferred when omitted"),
+    sameGenre: z.boolean().optional().describe("Only return artists from the same genre (default true)"),
+    limit: z.number().int().min(1).max(20).optional().describe("How many artists to return (default 3)")
+  }),
+  execute: async ({ artist, genre, sameGenre, limit }) => {
+    const env = getCurrentAgent<Chat>().agent?.getEnv();
+
+    if (!env?.ARTIST_EMBEDDINGS) {
+      return {
+        error: "Vectorize binding not configured",
+        results: []
+      };
+    }
+
+    try {
+      const resolution = await resolveArtistFuzzy(env, artist, genre);
+      if (resolution.status !== "resolved") {
+        return { ...unresolvedName("artist", artist, resolution), results: [] };
+      }
+      const source = resolution.match;
+      const { results, nextOffset } = await findSimilarArtists(
+        env.ARTIST_EMBEDDINGS,
+        source.artist,
+        source.genre,
+        limit ?? 3,
+        { sameGenre }
+      );
+      const displayNames = await displayArtistNames(env, results);
+
+      return {
+        artist: source.displayName,
+        genre: source.genre,
+        results: results.map((r, idx) => ({
+          artist: displayNames[idx],
           genre: r.genre,
           score: Math.round(r.score * 1000) / 1000
+        })),
+        nextOffset
+      };
+    } catch (error) {
+      console.error("Error finding similar artists:", error);
+      return {
+        error: error instanceof Error ? error.message : String(error),
+        results: []
+      };
+    }
+  }
+});
+
+const findBlendedArtistsTool = tool({
+  description: "Find artists in a target genre that sound like a blend of two or more source artists, e.g. \"Taylor Swift + Kendrick Lamar, in country\". Each result says how much each source contributed.",
+  inputSchema: z.object({
+    sources: z
+      .array(
+        z.object({
+          artist: z.string().describe("The name of a source artist; partial names and typos are resolved against the catalog"),
+          genre: z.string().optional().describe("The genre of that source artist; inferred when omitted"),
+          weight: z.number().min(0).optional().describe("Relative weight of this artist in the blend (default 1)")
+        })
+      )
+      .min(2)
+      .describe("The artists to blend"),
+    targetGenre: z.string().describe("The target genre to find artists in"),
+    limit: z.number().int().min(1).max(20).optional().describe("How many artists to return (default 3)")
+  }),
+  execute: async ({ sources, targetGenre, limit }) => {
+    const env = getCurrentAgent<Chat>().agent?.getEnv();
+
+    if (!env?.ARTIST_EMBEDDINGS) {
+      return {
+        error: "Vectorize binding not configured",
+        results: []
+      };
+    }
+
+    try {
+      const [sourceResolutions, targetResolution] = await Promise.all([
+        Promise.all(sources.map((s) => resolveArtistFuzzy(env, s.artist, s.genre))),
+        resolveGenreFuzzy(env, targetGenre)
+      ]);
+      const resolvedSources: Array<{ artist: string; genre: string; weight?: number }> = [];
+      for (const [i, resolution] of sourceResolutions.entries()) {
+        if (resolution.status !== "resolved") {
+          return { ...unresolvedName("artist", sources[i].artist, resolution), results: [] };
+        }
+        resolvedSources.push({ artist: resolution.match.artist, genre: resolution.match.genre, weight: sources[i].weight });
+      }
+      if (targetResolution.status !== "resolved") {
+        return { ...unresolvedName("genre", targetGenre, targetResolution), results: [] };
+      }
+      const resolvedTargetGenre = targetResolution.match.genre;
+      const { results } = await findBlendedArtists(
+        env.ARTIST_EMBEDDINGS,
+        resolvedSources,
+        resolvedTargetGenre,
+        limit ?? 3
+      );
+      const [resultNames, sourceNames] = await Promise.all([
+        displayArtistNames(env, results),
+        displayArtistNames(env, resolvedSources)
+      ]);
+
+      return {
+        results: results.map((r, idx) => ({
+          artist: resultNames[idx],
+          genre: r.genre,
+          score: Math.round(r.score * 1000) / 1000,
+          contributions: r.contributions.map((c, i) => ({
+            artist: sourceNames[i],
+            share: Math.round(c.share * 1000) / 1000
+          }))
         }))
       };
     } catch (error) {
-      console.error("Error finding equivalent artists:", error);
+      console.error("Error finding blended artists:", error);
       return {
         error: error instanceof Error ? error.message : String(error),
         results: []
@@ -130,18 +338,223 @@ const findEquivalentArtistsTool = tool({
   }
 });
 
+const findArtistBridgeTool = tool({
+  description: "Build a \"bridge playlist\" from one artist to another, possibly across genres, e.g. \"take me from Johnny Cash to Kendrick Lamar\". Returns the two artists with the artists in between, in order, one per step along the path.",
+  inputSchema: z.object({
+    fromArtist: z.string().describe("The artist the playlist starts from"),
+    fromGenre: z.string().optional().describe("The genre of the starting artist; inferred when omitted"),
+    toArtist: z.string().describe("The artist the playlist ends at"),
+    toGenre: z.string().optional().describe("The genre of the final artist; inferred when omitted"),
+    steps: z.number().int().min(1).max(20).optional().describe("How many artists to place between the two (default 6)")
+  }),
+  execute: async ({ fromArtist, fromGenre, toArtist, toGenre, steps }) => {
+    const env = getCurrentAgent<Chat>().agent?.getEnv();
+
+    if (!env?.ARTIST_EMBEDDINGS) {
+      return {
+        error: "Vectorize binding not configured",
+        steps: []
+      };
+    }
+
+    try {
+      const [fromResolution, toResolution] = await Promise.all([
+        resolveArtistFuzzy(env, fromArtist, fromGenre),
+        resolveArtistFuzzy(env, toArtist, toGenre)
+      ]);
+      if (fromResolution.status !== "resolved") {
+        return { ...unresolvedName("artist", fromArtist, fromResolution), steps: [] };
+      }
+      if (toResolution.status !== "resolved") {
+        return { ...unresolvedName("artist", toArtist, toResolution), steps: [] };
+      }
+      const path = await findArtistBridge(env.ARTIST_EMBEDDINGS, fromResolution.match, toResolution.match, { steps });
+      const displayNames = await displayArtistNames(env, path);
+
+      return {
+        steps: path.map((s, idx) => ({
+          artist: displayNames[idx],
+          genre: s.genre,
+          score: Math.round(s.score * 1000) / 1000
+        }))
+      };
+    } catch (error) {
+      console.error("Error finding artist bridge:", error);
+      return {
+        error: error instanceof Error ? error.message : String(error),
+        steps: []
+      };
+    }
+  }
+});
+
+const searchArtistsByDescriptionTool = tool({
+  description: "Find artists matching a free-text description, e.g. \"a moody storytelling artist who sings about small towns\". Use this when the user describes a sound or theme instead of naming an artist. Returns ranked artists with similarity scores.",
+  inputSchema: z.object({
+    query: z.string().describe("The description of the artist to look for"),
+    genre: z.string().optional().describe("Only return artists in this genre; resolved against the catalog"),
+    limit: z.number().int().min(1).max(20).optional().describe("How many artists to return (default 3)")
+  }),
+  execute: async ({ query, genre, limit }) => {
+    const env = getCurrentAgent<Chat>().agent?.getEnv();
+
+    if (!env?.AI || !env.ARTIST_EMBEDDINGS) {
+      return {
+        error: "AI or Vectorize binding not configured",
+        results: []
+      };
+    }
+
+    try {
+      const genreResolution = genre ? await resolveGenreFuzzy(env, genre) : undefined;
+      if (genre && genreResolution && genreResolution.status !== "resolved") {
+        return { ...unresolvedName("genre", genre, genreResolution), results: [] };
+      }
+      const resolvedGenre = genreResolution?.status === "resolved" ? genreResolution.match.genre : undefined;
+      const { results } = await searchArtistsByDescription(
+        env.AI,
+        env.ARTIST_EMBEDDINGS,
+        query,
+        limit ?? 3,
+        { genre: resolvedGenre }
+      );
+      const displayNames = await displayArtistNames(env, results);
+
+      return {
+        results: results.map((r, idx) => ({
+          artist: displayNames[idx],
+          genre: r.genre,
+          score: Math.round(r.score * 1000) / 1000
+        }))
+      };
+    } catch (error) {
+      console.error("Error searching artists by description:", error);
+      return {
+        error: error instanceof Error ? error.message : String(error),
+        results: []
+      };
+    }
+  }
+});
+
+const matchLyricsTool = tool({
+  description: "Find the artists closest to lyrics or a song the user wrote themselves. Returns the genre the text sounds most like, the nearest artists overall and per genre, and, when targetGenre is given, who the user would be in that genre (\"who am I in country?\"). The lyrics are not stored.",
+  inputSchema: z.object({
+    lyrics: z.string().describe("The lyrics or song text the user pasted, verbatim"),
+    targetGenre: z.string().optional().describe("A genre to find the user's equivalent in"),
+    limit: z.number().int().min(1).max(20).optional().describe("How many artists to return overall (default 5)")
+  }),
+  execute: async ({ lyrics, targetGenre, limit }) => {
+    const env = getCurrentAgent<Chat>().agent?.getEnv();
+
+    if (!env?.AI || !env.ARTIST_EMBEDDINGS) {
+      return {
+        error: "AI or Vectorize binding not configured"
+      };
+    }
+
+    try {
+      const [genreCounts, targetResolution] = await Promise.all([
+        getCatalogStub(env).listGenres(),
+        targetGenre ? resolveGenreFuzzy(env, targetGenre) : undefined
+      ]);
+      if (targetGenre && targetResolution && targetResolution.status !== "resolved") {
+        return unresolvedName("genre", targetGenre, targetResolution);
+      }
+      const resolvedTargetGenre = targetResolution?.status === "resolved" ? targetResolution.match.genre : undefined;
+      const match = await matchLyrics(env.AI, env.ARTIST_EMBEDDINGS, lyrics, {
+        genres: genreCounts.map((g) => g.genre),
+        targetGenre: resolvedTargetGenre,
+        topK: limit ?? 5,
+        perGenre: 2
+      });
+
+      const withDisplayNames = async (results: Array<{ artist: string; genre: string; score: number }>) => {
+        const displayNames = await displayArtistNames(env, results);
+        return results.map((r, idx) => ({
+          artist: displayNames[idx],
+          genre: r.genre,
+          score: Math.round(r.score * 1000) / 1000
+        }));
+      };
+
+      return {
+        predictedGenre: match.predictedGenre,
+        overall: await withDisplayNames(match.overall),
+        byGenre: await Promise.all(
+          match.byGenre.map(async (g) => ({ genre: g.genre, results: await withDisplayNames(g.results) }))
+        ),
+        analogy: match.analogy
+          ? {
+              sourceGenre: match.analogy.sourceGenre,
+              targetGenre: match.analogy.targetGenre,
+              results: await withDisplayNames(match.analogy.results)
+            }
+          : null
+      };
+    } catch (error) {
+      console.error("Error matching lyrics:", error);
+      return {
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
+const classifyArtistGenreTool = tool({
+  description: "Work out which genre an artist most belongs to by comparing them with every genre's average. Returns a probability for each genre and whether the artist sounds closer to another genre than the one they are listed under.",
+  inputSchema: z.object({
+    artist: z.string().describe("The name of the artist; partial names and typos are resolved against the catalog"),
+    genre: z.string().optional().describe("The genre the artist is listed under; inferred when omitted")
+  }),
+  execute: async ({ artist, genre }) => {
+    const env = getCurrentAgent<Chat>().agent?.getEnv();
+
+    if (!env?.ARTIST_EMBEDDINGS) {
+      return {
+        error: "Vectorize binding not configured"
+      };
+    }
+
+    try {
+      const resolution = await resolveArtistFuzzy(env, artist, genre);
+      if (resolution.status !== "resolved") {
+        return unresolvedName("artist", artist, resolution);
+      }
+      const source = resolution.match;
+      const result = await classifyArtist(env, source.artist, source.genre);
+
+      return {
+        artist: source.displayName,
+        genre: result.genre,
+        predictedGenre: result.predictedGenre,
+        mislabelled: result.mislabelled,
+        distribution: result.distribution.map((g) => ({
+          genre: g.genre,
+          probability: Math.round(g.probability * 1000) / 1000
+        }))
+      };
+    } catch (error) {
+      console.error("Error classifying artist genre:", error);
+      return {
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+});
+
 const generateSongInStyle = tool({
   description: "Get artist documents for a source artist and target artist. Use this when the user wants to generate a song as if the source artist wrote in the style of the target artist. Returns the documents containing lyrics and features for both artists.",
   inputSchema: z.object({
     sourceArtist: z.string().describe("The name of the source artist who is writing the song"),
-    sourceGenre: z.string().describe("The genre of the source artist"),
+    sourceGenre: z.string().optional().describe("The genre of the source artist; inferred when omitted"),
     equivalentArtist: z.string().describe("The name of the equivalent artist to write in the style of"),
-    targetGenre: z.string().describe("The genre of the equivalent artist")
+    targetGenre: z.string().optional().describe("The genre of the equivalent artist; inferred when omitted")
   }),
   execute: async ({ sourceArtist, sourceGenre, equivalentArtist, targetGenre }) => {
-    const { agent } = getCurrentAgent<Chat>();
+    const env = getCurrentAgent<Chat>().agent?.getEnv();
     
-    if (!agent?.env.ARTIST_DOCUMENTS) {
+    if (!env?.ARTIST_DOCUMENTS) {
       return {
         error: "R2 binding not configured",
         sourceDocument: "",
@@ -150,36 +563,34 @@ const generateSongInStyle = tool({
     }
     
     try {
-      // Fetch both artists' documents from R2
-      let sourceDocument = "";
-      let targetDocument = "";
-      
-      const r2Object = await agent.env.ARTIST_DOCUMENTS.get("artist_documents.json");
-      if (r2Object) {
-        const documentsData = await r2Object.json() as { artists: Array<{ genre: string; artist: string; document: string }> };
-        
-        // Find both artists (case-insensitive)
-        const sourceData = documentsData.artists.find(
-          a => a.artist.toLowerCase() === sourceArtist.toLowerCase() && 
-               a.genre.toLowerCase() === sourceGenre.toLowerCase()
-        );
-        const targetData = documentsData.artists.find(
-          a => a.artist.toLowerCase() === equivalentArtist.toLowerCase() && 
-               a.genre.toLowerCase() === targetGenre.toLowerCase()
-        );
-        
-        sourceDocument = sourceData?.document || "";
-        targetDocument = targetData?.document || "";
+      // Resolve names against the catalog, then fetch both artists' documents
+      const [sourceResolution, targetResolution] = await Promise.all([
+        resolveArtistFuzzy(env, sourceArtist, sourceGenre),
+        resolveArtistFuzzy(env, equivalentArtist, targetGenre)
+      ]);
+      if (sourceResolution.status !== "resolved") {
+        return { ...unresolvedName("artist", sourceArtist, sourceResolution), sourceDocument: "", targetDocument: "" };
+      }
+      if (targetResolution.status !== "resolved") {
+        return { ...unresolvedName("artist", equivalentArtist, targetResolution), sourceDocument: "", targetDocument: "" };
       }
+      const source = sourceResolution.match;
+      const target = targetResolution.match;
+      const [sourceData, targetData] = await Promise.all([
+        getArtistDocument(env.ARTIST_DOCUMENTS, source.genre, source.artist),
+        getArtistDocument(env.ARTIST_DOCUMENTS, target.genre, target.artist)
+      ]);
+      const sourceDocument = sourceData?.document || "";
+      const targetDocument = targetData?.document || "";
       
       return {
-        sourceArtist,
-        sourceGenre,
-        targetArtist: equivalentArtist,
-        targetGenre,
+        sourceArtist: source.displayName,
+        sourceGenre: source.genre,
+        targetArtist: target.displayName,
+        targetGenre: target.genre,
         sourceDocument,
         targetDocument,
-        prompt: `Write a short song (1-2 verses and a chorus) as if ${sourceArtist} (a ${sourceGenre} artist) wrote a ${targetGenre} song in the style of ${equivalentArtist}. The song should blend ${sourceArtist}'s artistic voice with ${equivalentArtist}'s ${targetGenre} style.`
+        prompt: `Write a short song (1-2 verses and a chorus) as if ${source.displayName} (a ${source.genre} artist) wrote a ${target.genre} song in the style of ${target.displayName}. The song should blend ${source.displayName}'s artistic voice with ${target.displayName}'s ${target.genre} style.`
       };
     } catch (error) {
       console.error("Error fetching artist documents:", error);
@@ -199,6 +610,12 @@ export const tools = {
   getScheduledTasks,
   cancelScheduledTask,
   findEquivalentArtists: findEquivalentArtistsTool,
+  findSimilarArtists: findSimilarArtistsTool,
+  findBlendedArtists: findBlendedArtistsTool,
+  findArtistBridge: findArtistBridgeTool,
+  searchArtistsByDescription: searchArtistsByDescriptionTool,
+  matchLyrics: matchLyricsTool,
+  classifyArtistGenre: classifyArtistGenreTool,
   generateSongInStyle
 } satisfies ToolSet;
 
@@ -0,0 +1,95 @@
+import { getCatalogStub } from "./catalog";
+import { embeddingProblem } from "./embeddings";
+import { getArtistVectors } from "./vector-utils";
+
+export interface AffectedArtist {
+  genre: string;
+  artist: string;
+  vectorId: string;
+}
+
+export interface VectorDiagnosticsReport {
+  scanned: number;
+  /** Catalog artists with no vector in the index */
+  missing: AffectedArtist[];
+  /** Zero-norm, non-finite or wrong-sized vectors */
+  invalid: Array<AffectedArtist & { reason: string }>;
+  /** Groups of artists whose vectors are byte-for-byte identical */
+  duplicates: AffectedArtist[][];
+  scannedAt: string;
+}
+
+const BATCH_SIZE = 20;
+
+async function fingerprint(values: number[]): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new Float32Array(values).buffer
+  );
+  return Array.from(new Uint8Array(digest), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+/**
+ * Reads every catalogued artist vector and lists the ones that shouldn't
+ * be in the index. Read-only: fix affected artists by re-saving them
+ * through the admin API or re-running ingestion.
+ */
+export async function scanArtistVectors(
+  env: Env,
+  options: { genre?: string } = {}
+): Promise<VectorDiagnosticsReport> {
+  const catalog = getCatalogStub(env);
+  const genre = options.genre
+    ? await catalog.resolveGenre(options.genre)
+    : null;
+  const artists = (await catalog.allArtists()).filter(
+    (a) => !options.genre || a.genre === genre
+  );
+
+  const report: VectorDiagnosticsReport = {
+    scanned: 0,
+    missing: [],
+    invalid: [],
+    duplicates: [],
+    scannedAt: new Date().toISOString()
+  };
+  const byFingerprint = new Map<string, AffectedArtist[]>();
+
+  for (let i = 0; i < artists.length; i += BATCH_SIZE) {
+    const batch = await getArtistVectors(
+      env.ARTIST_EMBEDDINGS,
+      artists
+        .slice(i, i + BATCH_SIZE)
+        .map((a) => ({ genre: a.genre, artist: a.name, vectorId: a.vectorId }))
+    );
+
+    for (const { values, ...entry } of batch) {
+      if (!values) {
+        report.missing.push(entry);
+        continue;
+      }
+
+      report.scanned++;
+      const reason = embeddingProblem(values);
+      if (reason) {
+        report.invalid.push({ ...entry, reason });
+        continue;
+      }
+
+      const key = await fingerprint(values);
+      const group = byFingerprint.get(key) ?? [];
+      group.push(entry);
+      byFingerprint.set(key, group);
+    }
+  }
+
+  report.duplicates = Array.from(byFingerprint.values()).filter(
+    (group) => group.length > 1
+  );
+  console.log(
+    `Vector diagnostics: ${report.scanned} scanned, ${report.invalid.length} invalid, ${report.duplicates.length} duplicate groups, ${report.missing.length} missing`
+  );
+  return report;
+}
@@ -0,0 +1,167 @@
+import { getCatalogStub } from "./catalog";
+import { songChunkIds } from "./song-chunks";
+import {
+  artistVectorId,
+  getVectorsByIds,
+  legacyArtistVectorId
+} from "./vector-utils";
+
+export interface VectorIdMigrationReport {
+  migrated: number;
+  alreadyMigrated: number;
+  missing: Array<{ genre: string; artist: string; legacyId: string }>;
+  /** Legacy vectors whose stored artist name belongs to a different catalog entry */
+  collisions: Array<{
+    genre: string;
+    artist: string;
+    legacyId: string;
+    storedArtist: string;
+  }>;
+}
+
+const BATCH_SIZE = 20;
+
+/**
+ * Re-keys every catalog artist from the legacy `${genre}_${artist}` id to the
+ * hashed id. Values are copied as-is, so nothing is re-embedded. Legacy
+ * vectors are only deleted once their copy has been upserted.
+ */
+export async function migrateVectorIds(
+  env: Env
+): Promise<VectorIdMigrationReport> {
+  const catalog = getCatalogStub(env);
+  const artists = await catalog.allArtists();
+  const report: VectorIdMigrationReport = {
+    migrated: 0,
+    alreadyMigrated: 0,
+    missing: [],
+    collisions: []
+  };
+
+  for (let i = 0; i < artists.length; i += BATCH_SIZE) {
+    const batch = await Promise.all(
+      artists.slice(i, i + BATCH_SIZE).map(async ({ name, genre }) => ({
+        name,
+        genre,
+        legacyId: legacyArtistVectorId(genre, name),
+        newId: await artistVectorId(genre, name)
+      }))
+    );
+
+    const existingNew = new Set(
+      (
+        await getVectorsByIds(
+          env.ARTIST_EMBEDDINGS,
+          batch.map((b) => b.newId)
+        )
+      ).map((v) => v.id)
+    );
+    const legacyVectors = new Map(
+      (
+        await getVectorsByIds(
+          env.ARTIST_EMBEDDINGS,
+          batch.map((b) => b.legacyId)
+        )
+      ).map((v) => [v.id, v])
+    );
+
+    const upserts: VectorizeVector[] = [];
+    const legacyIdsToDelete: string[] = [];
+    const catalogUpdates: Array<{
+      name: string;
+      genre: string;
+      vectorId: string;
+    }> = [];
+
+    for (const { name, genre, legacyId, newId } of batch) {
+      if (existingNew.has(newId)) {
+        report.alreadyMigrated++;
+        catalogUpdates.push({ name, genre, vectorId: newId });
+        continue;
+      }
+
+      const legacy = legacyVectors.get(legacyId);
+      if (!legacy) {
+        report.missing.push({ genre, artist: name, legacyId });
+        continue;
+      }
+
+      // Two catalog names can share a legacy id; only the one whose name was
+      // stored in metadata really owns the vector
+      const storedArtist = String(legacy.metadata?.artist ?? "");
+      if (
+        storedArtist &&
+        storedArtist.normalize("NFC") !== name.normalize("NFC")
+      ) {
+        report.collisions.push({ genre, artist: name, legacyId, storedArtist });
+        continue;
+      }
+
+      upserts.push({
+        id: newId,
+        values: legacy.values,
+        metadata: { ...legacy.metadata, type: "artist", genre, artist: name }
+      });
+      legacyIdsToDelete.push(legacyId);
+      catalogUpdates.push({ name, genre, vectorId: newId });
+    }
+
+    if (upserts.length > 0) {
+      await env.ARTIST_EMBEDDINGS.upsert(upserts);
+      await env.ARTIST_EMBEDDINGS.deleteByIds(legacyIdsToDelete);
+      report.migrated += upserts.length;
+    }
+    if (catalogUpdates.length > 0) {
+      await catalog.upsertArtists(catalogUpdates);
+    }
+
+    console.log(
+      `Vector id migration: ${Math.min(i + BATCH_SIZE, artists.length)}/${artists.length} artists processed`
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Re-upserts every catalogued artist vector and its song chunks unchanged.
+ * Vectorize only indexes metadata for vectors written after a metadata index
+ * is created, so this has to run once after adding the `type` and `genre`
+ * indexes for genre-filtered queries to see older vectors.
+ */
+export async function reindexArtistVectors(
+  env: Env
+): Promise<{ reindexed: number; songChunks: number; missing: number }> {
+  const artists = await getCatalogStub(env).allArtists();
+  const report = { reindexed: 0, songChunks: 0, missing: 0 };
+
+  for (let i = 0; i < artists.length; i += BATCH_SIZE) {
+    const batch = artists.slice(i, i + BATCH_SIZE);
+    const artistIds = await Promise.all(
+      batch.map((a) => a.vectorId ?? artistVectorId(a.genre, a.name))
+    );
+    const chunkIds = (
+      await Promise.all(batch.map((a) => songChunkIds(a.genre, a.name)))
+    ).flat();
+
+    const artistVectors = await getVectorsByIds(
+      env.ARTIST_EMBEDDINGS,
+      artistIds
+    );
+    const chunkVectors = await getVectorsByIds(env.ARTIST_EMBEDDINGS, chunkIds);
+    const vectors = [...artistVectors, ...chunkVectors];
+
+    if (vectors.length > 0) {
+      await env.ARTIST_EMBEDDINGS.upsert(vectors);
+    }
+    report.reindexed += artistVectors.length;
+    report.songChunks += chunkVectors.length;
+    report.missing += batch.length - artistVectors.length;
+
+    console.log(
+      `Reindex: ${Math.min(i + BATCH_SIZE, artists.length)}/${artists.length} artists processed`
+    );
+  }
+
+  return report;
+}
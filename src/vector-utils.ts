@@ -1,39 +1,160 @@
+import { normalizeName } from "./artist-names";
+import { normalizeKeyPart } from "./document-store";
+import {
+  aggregateSimilarity,
+  type ChunkAggregation,
+  getSongChunkVectors
+} from "./song-chunks";
+
 export interface ArtistResult {
   artist: string;
   genre: string;
   score: number;
 }
 
+/**
+ * Original id scheme, kept so vectors uploaded before the hashed ids can still
+ * be found and migrated. Lossy: "AC/DC" and "AC DC" map to the same id.
+ */
+export function legacyArtistVectorId(genre: string, artist: string): string {
+  return `${genre}_${artist}`.replace(/\s+/g, '_').replace(/\//g, '_');
+}
+
+/**
+ * Stable id for an artist vector: a truncated SHA-256 of the normalized genre
+ * and name, so it is collision-safe, ASCII-only and always 47 characters
+ * (Vectorize ids are limited to 64 bytes). The real name lives in metadata.
+ */
+export async function artistVectorId(genre: string, artist: string): Promise<string> {
+  const input = `${normalizeKeyPart(genre)}\u0000${normalizeKeyPart(artist)}`;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `artist_${hex.slice(0, 40)}`;
+}
+
 export async function getArtistVector(
   vectorize: VectorizeIndex,
   artist: string,
   genre: string
 ): Promise<number[] | null> {
-  const id = `${genre}_${artist}`.replace(/\s+/g, '_').replace(/\//g, '_');
+  const id = await artistVectorId(genre, artist);
   
   try {
-    const result = await vectorize.getByIds([id]);
+    let result = await vectorize.getByIds([id]);
+    if (result.length === 0 || !result[0]) {
+      // Not migrated to the hashed id scheme yet
+      result = await vectorize.getByIds([legacyArtistVectorId(genre, artist)]);
+    }
     if (result.length === 0 || !result[0]) {
       return null;
     }
     
-    const vector = result[0];
-    // Vectorize returns values as Float32Array, convert to regular array
-    if (vector.values instanceof Float32Array) {
-      return Array.from(vector.values);
-    }
-    return vector.values as number[];
+    return toNumberArray(result[0].values);
   } catch (error) {
     console.error(`Error getting artist vector for ${artist} (${genre}):`, error);
     return null;
   }
 }
 
+export function toNumberArray(values: VectorizeVector["values"]): number[] {
+  // Vectorize returns values as Float32Array, convert to regular array
+  if (values instanceof Float32Array || values instanceof Float64Array) {
+    return Array.from(values);
+  }
+  return values as number[];
+}
+
+// Vectorize caps the number of ids per getByIds call
+const GET_BY_IDS_LIMIT = 20;
+
+// Vectorize caps topK at 100 for queries that don't return values or metadata
+export const MAX_QUERY_TOP_K = 100;
+
+// Candidates fetched for song chunk rescoring, each costing up to
+// MAX_SONG_CHUNKS extra vector reads
+const MAX_RERANK_POOL = 40;
+
+// Vectorize caps topK at 20 for queries that return values
+const MAX_VALUES_TOP_K = 20;
+
+/**
+ * MMR ranks one pool of this many candidates, so its pages end there: the
+ * last page may be short, and an offset at or past it is rejected
+ */
+export const MAX_MMR_POOL = MAX_VALUES_TOP_K;
+
+export async function getVectorsByIds(
+  vectorize: VectorizeIndex,
+  ids: string[]
+): Promise<VectorizeVector[]> {
+  const vectors: VectorizeVector[] = [];
+  for (let i = 0; i < ids.length; i += GET_BY_IDS_LIMIT) {
+    const chunk = ids.slice(i, i + GET_BY_IDS_LIMIT);
+    vectors.push(...(await vectorize.getByIds(chunk)));
+  }
+  return vectors;
+}
+
+export interface ArtistVectorEntry {
+  genre: string;
+  artist: string;
+  /** Id the vector was found under, or the hashed id when it is missing */
+  vectorId: string;
+  values: number[] | null;
+}
+
+/**
+ * Batched getArtistVector: reads each artist's vector by its catalogued or
+ * hashed id, and falls back to the legacy `${genre}_${artist}` id for
+ * artists that haven't been migrated yet.
+ */
+export async function getArtistVectors(
+  vectorize: VectorizeIndex,
+  artists: Array<{ genre: string; artist: string; vectorId?: string | null }>
+): Promise<ArtistVectorEntry[]> {
+  const entries = await Promise.all(
+    artists.map(async (a) => ({
+      genre: a.genre,
+      artist: a.artist,
+      vectorId: a.vectorId ?? (await artistVectorId(a.genre, a.artist))
+    }))
+  );
+  const found = new Map(
+    (await getVectorsByIds(vectorize, entries.map((e) => e.vectorId))).map(
+      (v) => [v.id, toNumberArray(v.values)]
+    )
+  );
+
+  const legacyIds = entries
+    .filter((e) => !found.has(e.vectorId))
+    .map((e) => legacyArtistVectorId(e.genre, e.artist));
+  for (const v of await getVectorsByIds(vectorize, legacyIds)) {
+    found.set(v.id, toNumberArray(v.values));
+  }
+
+  return entries.map((e) => {
+    const values = found.get(e.vectorId);
+    if (values) {
+      return { ...e, values };
+    }
+    const legacyId = legacyArtistVectorId(e.genre, e.artist);
+    return found.has(legacyId)
+      ? { ...e, vectorId: legacyId, values: found.get(legacyId)! }
+      : { ...e, values: null };
+  });
+}
+
+export function averageGenreVectorId(genre: string): string {
+  return `avg_genre_${genre}`;
+}
+
 export async function getAverageGenreVector(
   vectorize: VectorizeIndex,
   genre: string
 ): Promise<number[] | null> {
-  const id = `avg_genre_${genre}`;
+  const id = averageGenreVectorId(genre);
   
   try {
     const result = await vectorize.getByIds([id]);
@@ -41,22 +162,63 @@ export async function getAverageGenreVector(
       return null;
     }
     
-    const vector = result[0];
-    // Vectorize returns values as Float32Array, convert to regular array
-    if (vector.values instanceof Float32Array) {
-      return Array.from(vector.values);
-    }
-    return vector.values as number[];
+    return toNumberArray(result[0].values);
   } catch (error) {
     console.error(`Error getting average genre vector for ${genre}:`, error);
     return null;
   }
 }
 
-function vectorArithmetic(
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error("Vector dimension mismatch");
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/** Scales a vector to unit length; the zero vector is returned unchanged */
+export function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map((v) => v / norm);
+}
+
+export function meanVector(vectors: number[][]): number[] {
+  const dims = vectors[0].length;
+  const mean = new Array(dims).fill(0);
+  for (const vector of vectors) {
+    if (vector.length !== dims) {
+      throw new Error("Vector dimension mismatch");
+    }
+    for (let i = 0; i < dims; i++) {
+      mean[i] += vector[i];
+    }
+  }
+  return mean.map((v) => v / vectors.length);
+}
+
+/**
+ * Moves an artist vector from its genre towards another one:
+ * artist + alpha * (avgTarget - avgSource). alpha = 1 is the full analogy,
+ * smaller values give "a little more country", larger ones overshoot.
+ */
+export function vectorArithmetic(
   artistVector: number[],
   avgSourceGenreVector: number[],
-  avgTargetGenreVector: number[]
+  avgTargetGenreVector: number[],
+  alpha: number = 1
 ): number[] {
   const dims = artistVector.length;
   if (avgSourceGenreVector.length !== dims || avgTargetGenreVector.length !== dims) {
@@ -65,19 +227,67 @@ function vectorArithmetic(
   
   const result: number[] = new Array(dims);
   for (let i = 0; i < dims; i++) {
-    result[i] = artistVector[i] - avgSourceGenreVector[i] + avgTargetGenreVector[i];
+    result[i] = artistVector[i] + alpha * (avgTargetGenreVector[i] - avgSourceGenreVector[i]);
   }
   
   return result;
 }
 
+export interface EquivalentArtistOptions {
+  /** Rescore candidates against song chunk vectors instead of the artist vector */
+  aggregation?: ChunkAggregation;
+  /** Ranked results to skip, for paging */
+  offset?: number;
+  /** Drop results scoring below this */
+  minScore?: number;
+  /**
+   * Diversify results with maximal marginal relevance: 1 ranks purely by
+   * score, lower values increasingly penalize artists similar to ones
+   * already ranked above them
+   */
+  mmrLambda?: number;
+  /** Strength of the genre shift, see vectorArithmetic (default 1) */
+  alpha?: number;
+}
+
+/** Genre-shift strengths the sweep covers by default, 0 to 1.5 */
+export const DEFAULT_ALPHA_STEPS = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5];
+
+export interface EquivalentArtistPage {
+  results: ArtistResult[];
+  /** Offset of the next page, or null when there are no more results */
+  nextOffset: number | null;
+}
+
 export async function findEquivalentArtists(
   vectorize: VectorizeIndex,
   sourceArtist: string,
   sourceGenre: string,
   targetGenre: string,
-  topK: number = 3
-): Promise<ArtistResult[]> {
+  topK: number = 3,
+  options: EquivalentArtistOptions = {}
+): Promise<EquivalentArtistPage> {
+  const aggregation = options.aggregation ?? "artist";
+  const offset = Math.max(options.offset ?? 0, 0);
+  const minScore = options.minScore ?? Number.NEGATIVE_INFINITY;
+  const pageEnd = offset + topK;
+  const mmrLambda = options.mmrLambda;
+  if (mmrLambda !== undefined && !(mmrLambda >= 0 && mmrLambda <= 1)) {
+    throw new Error("mmrLambda must be between 0 and 1");
+  }
+  if (mmrLambda !== undefined && offset >= MAX_MMR_POOL) {
+    throw new Error(`With mmrLambda, offset must be below ${MAX_MMR_POOL}`);
+  }
+  // One extra result tells us whether there is a next page. Chunk rescoring
+  // reorders candidates, so it ranks a wider pool instead. MMR always ranks
+  // the same pool, so every page comes from one consistent ordering.
+  const poolSize =
+    mmrLambda !== undefined
+      ? MAX_MMR_POOL
+      : aggregation === "artist"
+        ? Math.min(pageEnd + 1, MAX_QUERY_TOP_K)
+        : Math.min(Math.max(pageEnd * 4, 12), MAX_RERANK_POOL);
+
   const artistVector = await getArtistVector(vectorize, sourceArtist, sourceGenre);
   if (!artistVector) {
     throw new Error(`Artist ${sourceArtist} not found in genre ${sourceGenre}`);
@@ -93,86 +303,289 @@ export async function findEquivalentArtists(
     throw new Error(`Average vector not found for target genre ${targetGenre}`);
   }
   
-  const equivalentVector = vectorArithmetic(artistVector, avgSourceVector, avgTargetVector);
+  const equivalentVector = vectorArithmetic(artistVector, avgSourceVector, avgTargetVector, options.alpha);
   
-  const allMatches: Array<{ match: any; metadata: any }> = [];
+  // One deterministic query scoped to the target genre. Filtering on `type`
+  // and `genre` needs their metadata indexes (see README). Names are read
+  // with getByIds afterwards, since returning metadata caps topK at 20.
+  const queryResult = await vectorize.query(equivalentVector, {
+    topK: poolSize,
+    filter: { type: "artist", genre: targetGenre },
+    returnMetadata: "none",
+    returnValues: mmrLambda !== undefined
+  });
+  const matches = queryResult.matches;
   
-  for (let i = 0; i < 3; i++) {
-    const queryVector = i === 0 
-      ? equivalentVector 
-      : equivalentVector.map(v => v + (Math.random() - 0.5) * 0.001);
-    
-    const queryResult = await vectorize.query(queryVector, {
-      topK: 50,
-      returnMetadata: true,
-      returnValues: false
-    });
-    
-    for (const match of queryResult.matches || []) {
-      allMatches.push({
-        match,
-        metadata: match.metadata as { genre?: string; artist?: string; type?: string }
-      });
+  console.log(`Query returned ${matches.length} matches in ${targetGenre}`);
+  
+  if (matches.length === 0) {
+    console.warn(`No artists found in target genre "${targetGenre}". Check that the genre exists and its vectors are indexed.`);
+  }
+
+  if (aggregation === "artist") {
+    let scored = matches.filter((match) => match.score >= minScore);
+    if (mmrLambda !== undefined) {
+      scored = maximalMarginalRelevance(
+        scored,
+        scored.map((match) => (match.values ? toNumberArray(match.values) : undefined)),
+        mmrLambda
+      );
     }
+    return {
+      results: await withArtistNames(vectorize, scored.slice(offset, pageEnd), targetGenre),
+      nextOffset: scored.length > pageEnd ? pageEnd : null
+    };
+  }
+
+  const candidates = await withArtistNames(vectorize, matches, targetGenre);
+  let ranked = (
+    await rescoreWithSongChunks(
+      vectorize,
+      { artist: sourceArtist, genre: sourceGenre, vector: artistVector },
+      candidates,
+      avgSourceVector,
+      avgTargetVector,
+      aggregation,
+      options.alpha
+    )
+  ).filter((result) => result.score >= minScore);
+
+  if (mmrLambda !== undefined) {
+    const values = new Map(matches.map((match) => [match.id, match.values]));
+    const ids = await Promise.all(ranked.map((r) => artistVectorId(r.genre, r.artist)));
+    ranked = maximalMarginalRelevance(
+      ranked,
+      ids.map((id) => {
+        const vector = values.get(id);
+        return vector ? toNumberArray(vector) : undefined;
+      }),
+      mmrLambda
+    );
   }
   
-  const seen = new Set<string>();
-  const uniqueMatches = allMatches.filter(({ match }) => {
-    if (match.id && !seen.has(match.id)) {
-      seen.add(match.id);
-      return true;
-    }
-    return false;
+  return {
+    results: ranked.slice(offset, pageEnd),
+    nextOffset: ranked.length > pageEnd ? pageEnd : null
+  };
+}
+
+/**
+ * Top equivalents at several genre-shift strengths, loading the artist and
+ * centroid vectors once and running one query per alpha.
+ */
+export async function sweepGenreShift(
+  vectorize: VectorizeIndex,
+  sourceArtist: string,
+  sourceGenre: string,
+  targetGenre: string,
+  alphas: number[] = DEFAULT_ALPHA_STEPS,
+  topK: number = 3
+): Promise<Array<{ alpha: number; results: ArtistResult[] }>> {
+  const [artistVector, avgSourceVector, avgTargetVector] = await Promise.all([
+    getArtistVector(vectorize, sourceArtist, sourceGenre),
+    getAverageGenreVector(vectorize, sourceGenre),
+    getAverageGenreVector(vectorize, targetGenre)
+  ]);
+  if (!artistVector) {
+    throw new Error(`Artist ${sourceArtist} not found in genre ${sourceGenre}`);
+  }
+  if (!avgSourceVector) {
+    throw new Error(`Average vector not found for source genre ${sourceGenre}`);
+  }
+  if (!avgTargetVector) {
+    throw new Error(`Average vector not found for target genre ${targetGenre}`);
+  }
+
+  return Promise.all(
+    alphas.map(async (alpha) => {
+      const queryResult = await vectorize.query(
+        vectorArithmetic(artistVector, avgSourceVector, avgTargetVector, alpha),
+        {
+          topK: Math.min(topK, MAX_QUERY_TOP_K),
+          filter: { type: "artist", genre: targetGenre },
+          returnMetadata: "none",
+          returnValues: false
+        }
+      );
+      return {
+        alpha,
+        results: await withArtistNames(vectorize, queryResult.matches, targetGenre)
+      };
+    })
+  );
+}
+
+export interface SimilarArtistOptions {
+  /** Only return artists in the source artist's genre (default true) */
+  sameGenre?: boolean;
+  /** Ranked results to skip, for paging */
+  offset?: number;
+  /** Drop results scoring below this */
+  minScore?: number;
+}
+
+/**
+ * "More like this": nearest neighbours of the stored artist vector, with no
+ * genre shift. The artist itself is always left out.
+ */
+export async function findSimilarArtists(
+  vectorize: VectorizeIndex,
+  artist: string,
+  genre: string,
+  topK: number = 3,
+  options: SimilarArtistOptions = {}
+): Promise<EquivalentArtistPage> {
+  const sameGenre = options.sameGenre ?? true;
+  const offset = Math.max(options.offset ?? 0, 0);
+  const minScore = options.minScore ?? Number.NEGATIVE_INFINITY;
+  const pageEnd = offset + topK;
+
+  const artistVector = await getArtistVector(vectorize, artist, genre);
+  if (!artistVector) {
+    throw new Error(`Artist ${artist} not found in genre ${genre}`);
+  }
+  const ownIds = new Set([await artistVectorId(genre, artist), legacyArtistVectorId(genre, artist)]);
+  const ownName = normalizeName(artist);
+
+  // Extras for the artist itself (also catalogued under other genres when
+  // sameGenre is off) and one to detect a next page
+  const queryResult = await vectorize.query(artistVector, {
+    topK: Math.min(pageEnd + (sameGenre ? 2 : 4), MAX_QUERY_TOP_K),
+    filter: sameGenre ? { type: "artist", genre } : { type: "artist" },
+    returnMetadata: "none",
+    returnValues: false
   });
-  
-  uniqueMatches.sort((a, b) => (b.match.score || 0) - (a.match.score || 0));
-  
-  console.log(`Query returned ${uniqueMatches.length} unique matches`);
-  
-  const results: ArtistResult[] = [];
-  
-  for (const { match, metadata } of uniqueMatches) {
-    if (results.length === 0 && uniqueMatches.indexOf({ match, metadata }) < 10) {
-      console.log(`Match:`, {
-        id: match.id,
-        type: metadata.type,
-        genre: metadata.genre,
-        artist: metadata.artist,
-        score: match.score,
-        matchesTarget: metadata.genre === targetGenre && metadata.type === "artist"
-      });
-    }
-    
-    const matchGenre = metadata.genre?.toLowerCase().trim();
-    const targetGenreLower = targetGenre.toLowerCase().trim();
-    
-    if (
-      metadata.type === "artist" &&
-      matchGenre === targetGenreLower &&
-      metadata.artist
-    ) {
-      results.push({
-        artist: metadata.artist,
-        genre: metadata.genre || targetGenre,
-        score: match.score || 0
-      });
-      
-      if (results.length >= topK) {
-        break;
+  const matches = queryResult.matches.filter(
+    (match) => !ownIds.has(match.id) && match.score >= minScore
+  );
+  // Names are needed before paging, to drop the artist's other genres
+  const neighbours = (await withArtistNames(vectorize, matches, genre)).filter(
+    (result) => normalizeName(result.artist) !== ownName
+  );
+  console.log(`Found ${neighbours.length} neighbours of ${artist} (${genre})`);
+
+  return {
+    results: neighbours.slice(offset, pageEnd),
+    nextOffset: neighbours.length > pageEnd ? pageEnd : null
+  };
+}
+
+/**
+ * Greedily reorders scored items so each pick balances its own score
+ * (weighted by lambda) against its highest cosine similarity to the items
+ * already picked (weighted by 1 - lambda). Items without a vector are
+ * never penalized.
+ */
+export function maximalMarginalRelevance<T extends { score: number }>(
+  items: T[],
+  vectors: Array<number[] | undefined>,
+  lambda: number
+): T[] {
+  const remaining = items.map((_, i) => i);
+  const picked: number[] = [];
+
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestValue = Number.NEGATIVE_INFINITY;
+    for (let r = 0; r < remaining.length; r++) {
+      const i = remaining[r];
+      const vector = vectors[i];
+      let redundancy = 0;
+      if (vector && picked.length > 0) {
+        redundancy = Math.max(
+          ...picked.map((p) => {
+            const other = vectors[p];
+            return other ? cosineSimilarity(vector, other) : 0;
+          })
+        );
+      }
+      const value = lambda * items[i].score - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        best = r;
       }
     }
+    picked.push(remaining[best]);
+    remaining.splice(best, 1);
   }
-  
-  console.log(`Filtered to ${results.length} results in target genre ${targetGenre}`);
-  
-  if (results.length === 0) {
-    const availableGenres = Array.from(new Set(
-      uniqueMatches.map(({ metadata }) => metadata.genre?.toLowerCase().trim()).filter(Boolean)
-    ));
-    console.warn(`No artists found in target genre "${targetGenre}". Available genres in results:`, availableGenres);
-    console.warn(`Looking for: "${targetGenreLower}", found genres:`, availableGenres);
+
+  return picked.map((i) => items[i]);
+}
+
+/** Reads artist names for query matches from the vectors' metadata */
+export async function withArtistNames(
+  vectorize: VectorizeIndex,
+  matches: VectorizeMatch[],
+  fallbackGenre: string
+): Promise<ArtistResult[]> {
+  const metadata = new Map(
+    (await getVectorsByIds(vectorize, matches.map((m) => m.id))).map((v) => [
+      v.id,
+      (v.metadata ?? {}) as { genre?: string; artist?: string }
+    ])
+  );
+
+  const results: ArtistResult[] = [];
+  for (const match of matches) {
+    const meta = metadata.get(match.id);
+    if (!meta?.artist) {
+      continue;
+    }
+    results.push({
+      artist: meta.artist,
+      genre: meta.genre || fallbackGenre,
+      score: match.score
+    });
   }
-  
   return results;
 }
 
+/**
+ * Reranks candidates by comparing song chunks. The source chunks are moved
+ * into the target genre with the same arithmetic as the artist vector;
+ * artists without chunks fall back to their artist vector.
+ */
+async function rescoreWithSongChunks(
+  vectorize: VectorizeIndex,
+  source: { artist: string; genre: string; vector: number[] },
+  candidates: ArtistResult[],
+  avgSourceVector: number[],
+  avgTargetVector: number[],
+  aggregation: Exclude<ChunkAggregation, "artist">,
+  alpha?: number
+): Promise<ArtistResult[]> {
+  const chunks = await getSongChunkVectors(vectorize, [
+    { genre: source.genre, artist: source.artist },
+    ...candidates.map(({ genre, artist }) => ({ genre, artist }))
+  ]);
+  const chunksFor = async (genre: string, artist: string) =>
+    chunks.get(await artistVectorId(genre, artist)) ?? [];
+
+  const sourceChunks = await chunksFor(source.genre, source.artist);
+  const shiftedSource = (sourceChunks.length > 0 ? sourceChunks : [source.vector]).map(
+    (chunk) => vectorArithmetic(chunk, avgSourceVector, avgTargetVector, alpha)
+  );
+
+  const rescored: ArtistResult[] = [];
+  for (const candidate of candidates) {
+    let candidateChunks = await chunksFor(candidate.genre, candidate.artist);
+    if (candidateChunks.length === 0) {
+      const vector = await getArtistVector(vectorize, candidate.artist, candidate.genre);
+      candidateChunks = vector ? [vector] : [];
+    }
+    if (candidateChunks.length === 0) {
+      continue;
+    }
+
+    rescored.push({
+      ...candidate,
+      score: aggregateSimilarity(shiftedSource, candidateChunks, aggregation)
+    });
+  }
+
+  rescored.sort((a, b) => b.score - a.score);
+  console.log(
+    `Rescored ${rescored.length} candidates with ${aggregation} over ${sourceChunks.length} source chunks`
+  );
+  return rescored;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { namesMatch, normalizeName } from "../src/artist-names";
+
+describe("normalizeName", () => {
+  it("folds case, diacritics and whitespace", () => {
+    expect(normalizeName("Beyoncé")).toBe("beyonce");
+    expect(normalizeName("  Jay  Z ")).toBe("jay z");
+    expect(normalizeName("")).toBe("");
+  });
+
+  it("joins on apostrophes, periods and ampersands", () => {
+    expect(normalizeName("Guns N' Roses")).toBe("guns n roses");
+    expect(normalizeName("B.o.B")).toBe("bob");
+    expect(normalizeName("R&B")).toBe("rb");
+  });
+
+  it("splits on other punctuation", () => {
+    expect(normalizeName("JAY-Z")).toBe("jay z");
+    expect(normalizeName("AC/DC")).toBe("ac dc");
+  });
+});
+
+describe("namesMatch", () => {
+  it("matches names that normalize to the same string", () => {
+    expect(namesMatch("JAY-Z", "jay z")).toBe(true);
+    expect(namesMatch("Beyoncé", "BEYONCE")).toBe(true);
+  });
+
+  it("does not match different names", () => {
+    expect(namesMatch("Drake", "Drake Bell")).toBe(false);
+  });
+});
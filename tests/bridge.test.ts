@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { interpolate } from "../src/bridge";
+
+const norm = (v: number[]) => Math.hypot(...v);
+
+describe("interpolate", () => {
+  const a = [2, 0];
+  const b = [0, 2];
+
+  it("returns the endpoints at t = 0 and t = 1 for linear", () => {
+    expect(interpolate(a, b, 0, "linear")).toEqual(a);
+    expect(interpolate(a, b, 1, "linear")).toEqual(b);
+    expect(interpolate(a, b, 0.5, "linear")).toEqual([1, 1]);
+  });
+
+  it("follows the arc between the normalized vectors for slerp", () => {
+    const start = interpolate(a, b, 0, "slerp");
+    const middle = interpolate(a, b, 0.5, "slerp");
+    const end = interpolate(a, b, 1, "slerp");
+    expect(start[0]).toBeCloseTo(1);
+    expect(start[1]).toBeCloseTo(0);
+    expect(middle[0]).toBeCloseTo(Math.SQRT1_2);
+    expect(middle[1]).toBeCloseTo(Math.SQRT1_2);
+    expect(end[0]).toBeCloseTo(0);
+    expect(end[1]).toBeCloseTo(1);
+    for (const t of [0.25, 0.5, 0.75]) {
+      expect(norm(interpolate(a, b, t, "slerp"))).toBeCloseTo(1);
+    }
+  });
+
+  it("falls back to a line for parallel vectors", () => {
+    expect(interpolate([1, 0], [3, 0], 0.5, "slerp")).toEqual([2, 0]);
+  });
+});
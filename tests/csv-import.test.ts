@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { buildArtistDocument, parseCsv } from "../src/csv-import";
+
+function streamOf(...chunks: Array<string | Uint8Array>) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(
+          typeof chunk === "string" ? encoder.encode(chunk) : chunk
+        );
+      }
+      controller.close();
+    }
+  });
+}
+
+async function rows(stream: ReadableStream<Uint8Array>) {
+  const result: string[][] = [];
+  for await (const row of parseCsv(stream)) {
+    result.push(row);
+  }
+  return result;
+}
+
+describe("parseCsv", () => {
+  it("splits plain rows and keeps a final row without a line break", async () => {
+    expect(await rows(streamOf("a,b,c\n1,2,3\n4,5,6"))).toEqual([
+      ["a", "b", "c"],
+      ["1", "2", "3"],
+      ["4", "5", "6"]
+    ]);
+  });
+
+  it("keeps commas inside quoted fields", async () => {
+    expect(
+      await rows(streamOf('title,artist\n"Hello, World",Adele\n'))
+    ).toEqual([
+      ["title", "artist"],
+      ["Hello, World", "Adele"]
+    ]);
+  });
+
+  it('unescapes doubled quotes as ""', async () => {
+    expect(await rows(streamOf('"She said ""hi""",""\n'))).toEqual([
+      ['She said "hi"', ""]
+    ]);
+  });
+
+  it("strips CRLF line endings", async () => {
+    expect(await rows(streamOf("a,b\r\n1,2\r\n"))).toEqual([
+      ["a", "b"],
+      ["1", "2"]
+    ]);
+  });
+
+  it("keeps newlines inside quoted lyrics", async () => {
+    expect(
+      await rows(streamOf('title,lyrics\r\nSong,"line one\r\nline two\n"\r\n'))
+    ).toEqual([
+      ["title", "lyrics"],
+      ["Song", "line one\r\nline two\n"]
+    ]);
+  });
+
+  it("handles rows, quotes and characters split across chunks", async () => {
+    const bytes = new TextEncoder().encode('"Beyoncé ""B""",x\n');
+    const split = bytes.indexOf(0xc3) + 1;
+    expect(
+      await rows(streamOf(bytes.slice(0, split), bytes.slice(split)))
+    ).toEqual([['Beyoncé "B"', "x"]]);
+    expect(await rows(streamOf('"a"', '"b",c\nd', ",e\n"))).toEqual([
+      ['a"b', "c"],
+      ["d", "e"]
+    ]);
+  });
+});
+
+describe("buildArtistDocument", () => {
+  it("writes a Song header per song and truncates long lyrics", () => {
+    const song = {
+      title: "Halo",
+      genre: "pop",
+      artist: "Beyoncé",
+      year: "2008",
+      views: 10,
+      features: "{}",
+      lyrics: "Remember those walls I built"
+    };
+    expect(buildArtistDocument("Beyoncé", "pop", [song], 8)).toBe(
+      "Artist: Beyoncé\nGenre: pop\n\nSong: Halo (2008)\nRemember..."
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { rankGenres } from "../src/genre-classifier";
+
+const centroids = [
+  { genre: "rock", vector: [0, 1] },
+  { genre: "pop", vector: [1, 0] },
+  { genre: "rap", vector: [1, 1] }
+];
+
+describe("rankGenres", () => {
+  it("orders genres by cosine similarity, best first", () => {
+    const ranked = rankGenres([1, 0.1], centroids);
+    expect(ranked.map((r) => r.genre)).toEqual(["pop", "rap", "rock"]);
+    expect(ranked[0].similarity).toBeGreaterThan(ranked[1].similarity);
+  });
+
+  it("returns probabilities that sum to one", () => {
+    const ranked = rankGenres([1, 0.1], centroids);
+    const total = ranked.reduce((sum, r) => sum + r.probability, 0);
+    expect(total).toBeCloseTo(1);
+    expect(ranked[0].probability).toBeGreaterThan(ranked[1].probability);
+  });
+
+  it("sharpens the distribution as the temperature drops", () => {
+    const soft = rankGenres([1, 0.1], centroids, 1);
+    const sharp = rankGenres([1, 0.1], centroids, 0.001);
+    expect(sharp[0].probability).toBeGreaterThan(soft[0].probability);
+    expect(sharp[0].probability).toBeCloseTo(1);
+    expect(Number.isFinite(sharp[2].probability)).toBe(true);
+  });
+
+  it("rejects a non-positive temperature", () => {
+    expect(() => rankGenres([1, 0], centroids, 0)).toThrow(
+      "Temperature must be positive"
+    );
+    expect(() => rankGenres([1, 0], centroids, Number.NaN)).toThrow();
+  });
+
+  it("returns nothing without centroids", () => {
+    expect(rankGenres([1, 0], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { decide, nameSimilarity } from "../src/resolver";
+
+describe("nameSimilarity", () => {
+  it("scores exact matches 1 and empty input 0", () => {
+    expect(nameSimilarity("kendrick lamar", "kendrick lamar")).toBe(1);
+    expect(nameSimilarity("", "kendrick lamar")).toBe(0);
+    expect(nameSimilarity("kendrick lamar", "")).toBe(0);
+  });
+
+  it("tolerates typos", () => {
+    expect(nameSimilarity("kendrik lamar", "kendrick lamar")).toBeGreaterThan(
+      0.8
+    );
+  });
+
+  it("scores a partial name by the tokens it covers", () => {
+    expect(nameSimilarity("kendrick", "kendrick lamar")).toBeCloseTo(0.825);
+    expect(nameSimilarity("kend", "kendrick lamar")).toBeCloseTo(0.825);
+  });
+
+  it("scores unrelated names low", () => {
+    expect(nameSimilarity("adele", "kendrick lamar")).toBeLessThan(0.4);
+  });
+});
+
+describe("decide", () => {
+  const candidate = (name: string, confidence: number) => ({
+    name,
+    confidence
+  });
+
+  it("resolves a confident match with a clear margin", () => {
+    expect(
+      decide([candidate("drake", 0.95), candidate("drake bell", 0.8)])
+    ).toEqual({ status: "resolved", match: candidate("drake", 0.95) });
+    expect(decide([candidate("drake", 0.8)])).toEqual({
+      status: "resolved",
+      match: candidate("drake", 0.8)
+    });
+  });
+
+  it("asks when the runner-up is too close", () => {
+    const result = decide([
+      candidate("future", 0.9),
+      candidate("future islands", 0.85),
+      candidate("futurecop", 0.3)
+    ]);
+    expect(result).toEqual({
+      status: "ambiguous",
+      candidates: [candidate("future", 0.9), candidate("future islands", 0.85)]
+    });
+  });
+
+  it("suggests at most five candidates above the floor", () => {
+    const ranked = [0.7, 0.65, 0.6, 0.55, 0.5, 0.45, 0.3].map((c, i) =>
+      candidate(`artist ${i}`, c)
+    );
+    const result = decide(ranked);
+    expect(result.status).toBe("ambiguous");
+    expect(result.status !== "resolved" && result.candidates).toEqual(
+      ranked.slice(0, 5)
+    );
+  });
+
+  it("reports not found when nothing is worth suggesting", () => {
+    expect(decide([candidate("adele", 0.2)])).toEqual({
+      status: "not_found",
+      candidates: []
+    });
+    expect(decide([])).toEqual({ status: "not_found", candidates: [] });
+  });
+});
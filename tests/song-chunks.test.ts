@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  aggregateSimilarity,
+  MAX_SONG_CHUNKS,
+  splitDocumentIntoChunks
+} from "../src/song-chunks";
+
+describe("splitDocumentIntoChunks", () => {
+  it("splits on the Song: headers and drops the artist preamble", () => {
+    const document =
+      "Artist: Adele\nGenre: pop\n\nSong: Hello (2015)\nHello, it's me\n\nSong: Skyfall\nThis is the end";
+    expect(splitDocumentIntoChunks(document)).toEqual([
+      "Song: Hello (2015)\nHello, it's me",
+      "Song: Skyfall\nThis is the end"
+    ]);
+  });
+
+  it(`keeps at most ${MAX_SONG_CHUNKS} songs`, () => {
+    const document = Array.from(
+      { length: MAX_SONG_CHUNKS + 3 },
+      (_, i) => `Song: Track ${i}\nla la`
+    ).join("\n\n");
+    const chunks = splitDocumentIntoChunks(document);
+    expect(chunks).toHaveLength(MAX_SONG_CHUNKS);
+    expect(chunks[0]).toBe("Song: Track 0\nla la");
+  });
+
+  it("groups paragraphs when there are no song headers", () => {
+    const paragraph = "x".repeat(1000);
+    const chunks = splitDocumentIntoChunks(
+      [paragraph, paragraph, "short"].join("\n\n")
+    );
+    expect(chunks).toEqual([paragraph, `${paragraph}\n\nshort`]);
+  });
+
+  it("returns no chunks for an empty document", () => {
+    expect(splitDocumentIntoChunks("")).toEqual([]);
+  });
+});
+
+describe("aggregateSimilarity", () => {
+  const source = [
+    [1, 0],
+    [0, 1]
+  ];
+
+  it("compares the mean vectors for mean", () => {
+    expect(aggregateSimilarity(source, [[1, 1]], "mean")).toBeCloseTo(1);
+    expect(
+      aggregateSimilarity(
+        source,
+        [
+          [1, 0],
+          [1, 0]
+        ],
+        "mean"
+      )
+    ).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it("averages each source chunk's best match for maxsim", () => {
+    expect(
+      aggregateSimilarity(
+        source,
+        [
+          [0, 1],
+          [1, 0]
+        ],
+        "maxsim"
+      )
+    ).toBeCloseTo(1);
+    // The first source chunk matches exactly, the second is orthogonal
+    expect(aggregateSimilarity(source, [[1, 0]], "maxsim")).toBeCloseTo(0.5);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  maximalMarginalRelevance,
+  vectorArithmetic
+} from "../src/vector-utils";
+
+describe("maximalMarginalRelevance", () => {
+  const items = [
+    { name: "a", score: 0.9 },
+    { name: "a-clone", score: 0.89 },
+    { name: "b", score: 0.8 }
+  ];
+  const vectors = [
+    [1, 0],
+    [1, 0],
+    [0, 1]
+  ];
+
+  it("keeps the score order when lambda is 1", () => {
+    expect(
+      maximalMarginalRelevance(items, vectors, 1).map((i) => i.name)
+    ).toEqual(["a", "a-clone", "b"]);
+  });
+
+  it("pushes near-duplicates down as lambda drops", () => {
+    expect(
+      maximalMarginalRelevance(items, vectors, 0.5).map((i) => i.name)
+    ).toEqual(["a", "b", "a-clone"]);
+  });
+
+  it("never penalizes items without a vector", () => {
+    expect(
+      maximalMarginalRelevance(items, [[1, 0], undefined, [1, 0]], 0.5).map(
+        (i) => i.name
+      )
+    ).toEqual(["a", "a-clone", "b"]);
+  });
+
+  it("handles an empty list", () => {
+    expect(maximalMarginalRelevance([], [], 0.5)).toEqual([]);
+  });
+});
+
+describe("vectorArithmetic", () => {
+  const artist = [1, 2];
+  const source = [1, 0];
+  const target = [0, 1];
+
+  it("applies the full genre shift by default", () => {
+    expect(vectorArithmetic(artist, source, target)).toEqual([0, 3]);
+  });
+
+  it("scales the shift by alpha", () => {
+    expect(vectorArithmetic(artist, source, target, 0)).toEqual(artist);
+    expect(vectorArithmetic(artist, source, target, 0.5)).toEqual([0.5, 2.5]);
+    expect(vectorArithmetic(artist, source, target, 1.5)).toEqual([-0.5, 3.5]);
+  });
+
+  it("rejects vectors of different dimensions", () => {
+    expect(() => vectorArithmetic(artist, [1, 0, 0], target)).toThrow(
+      "Vector dimension mismatch"
+    );
+  });
+});